@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs';
+
+import {liftWebidl} from './lift_webidl';
+import {diffSchemas} from './schema_diff';
+import * as util from './util';
+
+function main() {
+    const args = process.argv.slice(2);
+    const opts = parseArgs(args);
+
+    // Lift both files to TreeSchemas.
+    const before = liftWebidl(
+        fs.readFileSync(opts.before, "utf8"),
+        util.symbolToName);
+    const after = liftWebidl(
+        fs.readFileSync(opts.after, "utf8"),
+        util.symbolToName);
+
+    const changes = diffSchemas(before, after);
+    for (let change of changes) {
+        console.log(change.prettyString());
+    }
+
+    const breaksFiles = changes.filter(c => c.breaksFiles);
+    const breaksModels = changes.filter(c => c.breaksModels);
+    console.log(`${changes.length} changes,` +
+                ` ${breaksFiles.length} breaking files,` +
+                ` ${breaksModels.length} breaking models.`);
+
+    // Fail if anything built against the old schema
+    // can't be used with the new one.
+    if ((breaksFiles.length > 0) ||
+        (breaksModels.length > 0))
+    {
+        process.exit(1);
+    }
+}
+
+interface Options {
+    before: string;
+    after: string;
+}
+
+function parseArgs(args: Array<string>): Options {
+    if (args.length < 2) {
+        usage('Two filenames are needed.');
+    }
+    if (args.length > 2) {
+        usage('Too many arguments.');
+    }
+    return {before: args[0], after: args[1]};
+}
+
+function usage(msg?) {
+    const usage = [
+        'Usage: binast-diff-schema <old.webidl> <new.webidl>',
+        '',
+        'Exits with status 1 if any change breaks files',
+        'encoded or models trained with the old schema.'
+    ];
+    console.log(usage.join('\n'));
+    errExit(msg);
+}
+
+function errExit(msg?) {
+    if (msg) {
+        console.error(msg);
+    }
+    process.exit(2);
+}
+
+main();
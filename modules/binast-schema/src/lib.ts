@@ -1,4 +1,6 @@
-
 export * from './field_types';
+export * from './migration';
+export * from './schema_diff';
+export * from './tree_json';
 export * from './tree_schema';
 export * from './visit_ast';
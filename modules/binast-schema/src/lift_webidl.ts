@@ -13,6 +13,10 @@ import {FieldType, FieldTypePrimitive, FieldTypeIdent,
 
 import {jsonStr} from './util';
 
+// The extended attributes fields may have.
+const FIELD_ATTRS: ReadonlySet<string> =
+    new Set(['Lazy', 'NonEmpty', 'TypeIndicator']);
+
 /**
  * Top-level function to parse a webidl from a string
  * into a schema.
@@ -196,10 +200,24 @@ class Lifter {
             const memberName = memberIdl.name as string;
             const memberType = this.liftIdlType(
                                     memberIdl.idlType);
-            // TODO: Check for extAttrs (lazy annotations).
+            const attrs = this.liftFieldAttrs(memberIdl);
+
+            // Only arrays can be non-empty.
+            if (attrs.has('NonEmpty')) {
+                const arrayTy = (memberType instanceof
+                                        FieldTypeUnion)
+                    ? memberType.variants.find(
+                        v => v instanceof FieldTypeArray)
+                    : memberType;
+                assert(arrayTy instanceof FieldTypeArray,
+                       `[NonEmpty] on non-array field` +
+                       ` ${name}.${memberName}`);
+            }
 
-            const field = new IfaceField(memberName,
-                                         memberType);
+            const field = new IfaceField(
+                memberName, memberType,
+                attrs.has('Lazy'), attrs.has('NonEmpty'),
+                attrs.has('TypeIndicator'));
 
             members.push(field);
         }
@@ -212,6 +230,27 @@ class Lifter {
         return iface;
     }
 
+    liftFieldAttrs(memberIdl): Set<string> {
+        const attrs = new Set<string>();
+        const extAttrs = memberIdl['extAttrs'];
+        if (! extAttrs) {
+            return attrs;
+        }
+        for (let item of extAttrs['items']) {
+            assert(item['type'] === 'extended-attribute');
+            const attrName = item['name'] as string;
+            if (! FIELD_ATTRS.has(attrName)) {
+                throw new Error(`Unknown field attribute` +
+                                ` [${attrName}]`);
+            }
+            // None of these attributes take arguments.
+            assert(! item['rhs'] && ! item['signature'],
+                   `Bad field attribute [${attrName}]`);
+            attrs.add(attrName);
+        }
+        return attrs;
+    }
+
     liftIdlType(idlType): FieldType {
         // Try lifting an array type.
         const arrayFt = this.tryLiftArrayType(idlType);
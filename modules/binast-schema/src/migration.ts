@@ -0,0 +1,384 @@
+
+import * as assert from 'assert';
+
+import {TreeSchema, TypeName, Enum, Iface, Value, Instance,
+        FieldValues, InstanceMaker, makePlainInstance}
+    from './tree_schema';
+import {FieldType, FieldTypeArray, FieldTypeEnum,
+        FieldTypeIface}
+    from './field_types';
+import {PathKey, TreeLocation, VisitHandler, Visitor}
+    from './visit_ast';
+
+/**
+ * Migration of trees from one version of a schema to
+ * another (see `schema_diff.ts` for what changed).
+ *
+ * A tree valid under the `before` schema is walked with
+ * a `Visitor`, and rebuilt bottom-up: arrays and
+ * primitive values are kept, enum values are mapped to
+ * the variant of the same name in the `after` schema
+ * (or the one registered with `mapEnumVariant`), and
+ * every instance is passed through the transforms
+ * registered for its iface, which decide which `after`
+ * iface it becomes and with what fields.  The result is
+ * then checked against the `after` schema.
+ *
+ * Transforms are given the fields of an instance already
+ * migrated, and are applied in the order they were
+ * registered.
+ */
+
+/**
+ * An instance being migrated: the name of the iface it
+ * will be built as, and its fields.
+ */
+export interface MigratedNode {
+    readonly iface: string;
+    readonly fields: FieldValues;
+}
+
+export type IfaceTransform =
+    (node: MigratedNode, loc: TreeLocation) => MigratedNode;
+
+export class MigrationError extends Error {
+    // Where in the tree, e.g. `$Root.statements[2].test`.
+    readonly location: string;
+
+    constructor(location: string, msg: string) {
+        super(`${location}: ${msg}`);
+        this.location = location;
+    }
+}
+
+export class Migration {
+    readonly before: TreeSchema;
+    readonly after: TreeSchema;
+    private readonly makeInstance: InstanceMaker;
+    private readonly transforms:
+        Map<string, Array<IfaceTransform>>;
+    private readonly variantMaps:
+        Map<string, Map<string, string>>;
+
+    constructor(before: TreeSchema,
+                after: TreeSchema,
+                makeInstance: InstanceMaker =
+                                    makePlainInstance)
+    {
+        this.before = before;
+        this.after = after;
+        this.makeInstance = makeInstance;
+        this.transforms = new Map();
+        this.variantMaps = new Map();
+    }
+
+    /** Register a transform of the instances of an iface. */
+    transformIface(ifaceName: string,
+                   transform: IfaceTransform)
+    {
+        this.beforeIface(ifaceName);
+        if (! this.transforms.has(ifaceName)) {
+            this.transforms.set(ifaceName, []);
+        }
+        this.transforms.get(ifaceName).push(transform);
+    }
+
+    renameIface(ifaceName: string, newName: string) {
+        this.splitIface(ifaceName, () => newName);
+    }
+
+    /**
+     * Build each instance of an iface as the iface named
+     * by `choose`, e.g. depending on the type of one of
+     * its fields.
+     */
+    splitIface(ifaceName: string,
+               choose: (node: MigratedNode) => string)
+    {
+        this.transformIface(ifaceName, node => {
+            return {iface: choose(node), fields: node.fields};
+        });
+    }
+
+    renameField(ifaceName: string,
+                fieldName: string, newName: string)
+    {
+        this.beforeField(ifaceName, fieldName);
+        this.transformIface(ifaceName, node => {
+            const fields = Object.assign({}, node.fields);
+            fields[newName] = fields[fieldName];
+            delete fields[fieldName];
+            return {iface: node.iface, fields};
+        });
+    }
+
+    removeField(ifaceName: string, fieldName: string) {
+        this.beforeField(ifaceName, fieldName);
+        this.transformIface(ifaceName, node => {
+            const fields = Object.assign({}, node.fields);
+            delete fields[fieldName];
+            return {iface: node.iface, fields};
+        });
+    }
+
+    /**
+     * Add a field, with the given value or the one
+     * computed from the rest of the instance.
+     */
+    addField(ifaceName: string, fieldName: string,
+             value: Value|((node: MigratedNode) => Value))
+    {
+        this.transformIface(ifaceName, node => {
+            const fields = Object.assign({}, node.fields);
+            fields[fieldName] = (typeof(value) === 'function')
+                ? value(node) : value;
+            return {iface: node.iface, fields};
+        });
+    }
+
+    /**
+     * Map a variant of an enum to another variant of the
+     * enum of the same name in the `after` schema.  Both
+     * are given by value, as in the webidl.
+     */
+    mapEnumVariant(enumName: string,
+                   fromValue: string, toValue: string)
+    {
+        const before = this.before.decls.maybeGet(
+                                TypeName.make(enumName));
+        const after = this.after.decls.maybeGet(
+                                TypeName.make(enumName));
+        assert((before instanceof Enum) &&
+               (before as Enum).valueMap.has(fromValue),
+               `No variant ${fromValue} of ${enumName}`);
+        assert((after instanceof Enum) &&
+               (after as Enum).valueMap.has(toValue),
+               `No variant ${toValue} of ${enumName}` +
+               ` after migration`);
+        if (! this.variantMaps.has(enumName)) {
+            this.variantMaps.set(enumName, new Map());
+        }
+        this.variantMaps.get(enumName).set(fromValue,
+                                           toValue);
+    }
+
+    /**
+     * Migrate a tree valid under the `before` schema.
+     * Throws a `MigrationError` if the result is not
+     * valid under the `after` schema.
+     */
+    migrate(root: Instance): Instance {
+        const handler = new MigrationHandler(this);
+        const visitor = Visitor.make({
+            schema: this.before,
+            root: root,
+            handler: handler
+        });
+        visitor.visit();
+
+        const result = handler.result as Instance;
+        checkValue(this.after,
+                   result.iface$.intoFieldType(),
+                   result, '$Root');
+        return result;
+    }
+
+    migrateValue(loc: TreeLocation,
+                 children: Map<PathKey, Value>)
+      : Value
+    {
+        const ty = loc.shape.ty;
+        if (ty instanceof FieldTypeIface) {
+            return this.migrateInstance(loc, ty.name.name,
+                                        children);
+        } else if (ty instanceof FieldTypeArray) {
+            const arr = new Array<Value>();
+            for (let i = 0; i < children.size; i++) {
+                assert(children.has(i));
+                arr.push(children.get(i));
+            }
+            return arr;
+        } else if (ty instanceof FieldTypeEnum) {
+            return this.migrateVariant(loc, ty.name.name,
+                                       loc.value as string);
+        }
+        // Primitives and identifiers.
+        return loc.value;
+    }
+
+    private migrateInstance(loc: TreeLocation,
+                            ifaceName: string,
+                            children: Map<PathKey, Value>)
+      : Instance
+    {
+        const fields: FieldValues = {};
+        children.forEach((value, key) => {
+            fields[key] = value;
+        });
+
+        let node: MigratedNode = {iface: ifaceName, fields};
+        for (let transform of
+                (this.transforms.get(ifaceName) || []))
+        {
+            node = transform(node, loc);
+        }
+
+        const decl = this.after.decls.maybeGet(
+                                TypeName.make(node.iface));
+        if (! (decl instanceof Iface)) {
+            throw new MigrationError(locationString(loc),
+                `No iface ${node.iface} after migration`);
+        }
+        const iface = decl as Iface;
+
+        const values: FieldValues = {};
+        for (let field of iface.fields) {
+            if (field.isTypeIndicator) {
+                continue;
+            }
+            if (! (field.name in node.fields)) {
+                throw new MigrationError(locationString(loc),
+                    `No value for field ${field.name}` +
+                    ` of ${node.iface}`);
+            }
+            values[field.name] = node.fields[field.name];
+        }
+        for (let name of Object.keys(node.fields)) {
+            if (iface.getField(name) === null) {
+                throw new MigrationError(locationString(loc),
+                    `No field ${name} in ${node.iface}`);
+            }
+        }
+        return this.makeInstance(iface, values);
+    }
+
+    private migrateVariant(loc: TreeLocation,
+                           enumName: string,
+                           variantName: string)
+      : string
+    {
+        const tn = TypeName.make(enumName);
+        const before = this.before.getDecl(tn) as Enum;
+        const idx = before.indexOfName(variantName);
+        let value = before.variants[idx].value;
+
+        const variantMap = this.variantMaps.get(enumName);
+        if (variantMap && variantMap.has(value)) {
+            value = variantMap.get(value);
+        }
+
+        const after = this.after.decls.maybeGet(tn);
+        if (! ((after instanceof Enum) &&
+               (after as Enum).valueMap.has(value)))
+        {
+            throw new MigrationError(locationString(loc),
+                `No variant ${JSON.stringify(value)} of` +
+                ` ${enumName} after migration`);
+        }
+        const afterEnum = after as Enum;
+        return afterEnum.variants[
+                    afterEnum.valueMap.get(value)
+                ].name.fullName;
+    }
+
+    private beforeIface(ifaceName: string): Iface {
+        const decl = this.before.decls.maybeGet(
+                                TypeName.make(ifaceName));
+        assert(decl instanceof Iface,
+               `No iface ${ifaceName} to migrate`);
+        return decl as Iface;
+    }
+
+    private beforeField(ifaceName: string,
+                        fieldName: string)
+    {
+        const iface = this.beforeIface(ifaceName);
+        assert(iface.getField(fieldName) !== null,
+               `No field ${fieldName} in ${ifaceName}`);
+    }
+}
+
+/*
+ * Rebuilds the tree as it is visited: every location
+ * collects the migrated values of its children, and
+ * hands its own to its parent when it ends.
+ */
+class MigrationHandler implements VisitHandler {
+    readonly migration: Migration;
+    readonly stack: Array<Map<PathKey, Value>>;
+    result: Value|undefined;
+
+    constructor(migration: Migration) {
+        this.migration = migration;
+        this.stack = new Array();
+        this.result = undefined;
+    }
+
+    begin(schema: TreeSchema, loc: TreeLocation) {
+        this.stack.push(new Map());
+    }
+
+    end(schema: TreeSchema, loc: TreeLocation) {
+        const children = this.stack.pop();
+        const value = this.migration.migrateValue(loc,
+                                                  children);
+        if (this.stack.length > 0) {
+            this.stack[this.stack.length - 1].set(loc.key,
+                                                  value);
+        } else {
+            this.result = value;
+        }
+    }
+}
+
+/* Check a migrated value against the `after` schema,
+ * down to its leaves.
+ */
+function checkValue(schema: TreeSchema, ty: FieldType,
+                    value: Value, location: string)
+{
+    if (! ty.matchesValue(schema, value)) {
+        throw new MigrationError(location,
+            `Value does not match ${ty.prettyString()}`);
+    }
+    const rty = ty.flatten(schema).resolveType(schema,
+                                                value).ty;
+    if (rty instanceof FieldTypeArray) {
+        (value as Array<Value>).forEach((v, i) => {
+            checkValue(schema, rty.inner, v,
+                       `${location}[${i}]`);
+        });
+    } else if (rty instanceof FieldTypeIface) {
+        const inst = value as Instance;
+        for (let field of inst.iface$.fields) {
+            if (field.isTypeIndicator) {
+                continue;
+            }
+            const fieldValue = inst[field.name] as Value;
+            const fieldLocation = `${location}.${field.name}`;
+            if (! field.matchesAttributes(fieldValue)) {
+                throw new MigrationError(fieldLocation,
+                    `Value does not match` +
+                    ` [${field.extAttrs.join(', ')}]`);
+            }
+            checkValue(schema, field.ty, fieldValue,
+                       fieldLocation);
+        }
+    }
+}
+
+/* Format a location as `$Root.field[index]...`. */
+function locationString(loc: TreeLocation): string {
+    const keys = new Array<PathKey>();
+    for (let iter = loc.ancestors(); !iter.done;
+         iter.next())
+    {
+        keys.push(iter.key);
+    }
+    return keys.reverse().map((key, i) => {
+        if (typeof(key) === 'number') {
+            return `[${key}]`;
+        }
+        return (i > 0) ? `.${key}` : key;
+    }).join('');
+}
@@ -0,0 +1,399 @@
+
+import * as assert from 'assert';
+
+import {TreeSchema, Declaration, Typedef, Enum,
+        Iface, IfaceField}
+    from './tree_schema';
+import {FieldType, FieldTypeArray, TypeSet}
+    from './field_types';
+
+/**
+ * Differences between two versions of a schema, and
+ * whether each of them breaks what was built against the
+ * older one.
+ *
+ * Two things are built against a schema:
+ *
+ *  - Encoded files, which are a walk of the tree in
+ *    schema order: the fields of each iface in
+ *    declaration order, the type of each value as an
+ *    index into the flattened type set of its field, and
+ *    enum values as variant indices.
+ *
+ *  - Trained models, whose tables are keyed by path
+ *    suffixes (made of iface and field names, cut at node
+ *    ifaces) and value tags, and are over those same type
+ *    sets and variant lists.
+ *
+ * Additions of declarations break neither, as nothing
+ * refers to them but through a field, whose change is
+ * reported on its own.  Removing an iface or enum breaks
+ * files holding its values, but only leaves some model
+ * tables unused.  Changes to the type of a field only
+ * break anything when its flattened type set changes
+ * (with the element types of arrays flattened as well,
+ * as they are coded as their own type sets), and
+ * `[Lazy]` only changes the layout of files, not
+ * what their symbols are coded with.  Anything else that
+ * changes fields or enum variants breaks both.
+ */
+
+export enum ChangeKind {
+    Added = 'added',
+    Removed = 'removed',
+    Changed = 'changed'
+}
+
+export class SchemaChange {
+    readonly kind: ChangeKind;
+    // What changed, e.g. `field VariableDeclaration.kind`.
+    readonly subject: string;
+    // How it changed, if not just added or removed.
+    readonly detail: string|null;
+    readonly breaksFiles: boolean;
+    readonly breaksModels: boolean;
+
+    constructor(kind: ChangeKind,
+                subject: string,
+                detail: string|null,
+                breaksFiles: boolean,
+                breaksModels: boolean)
+    {
+        this.kind = kind;
+        this.subject = subject;
+        this.detail = detail;
+        this.breaksFiles = breaksFiles;
+        this.breaksModels = breaksModels;
+        Object.freeze(this);
+    }
+
+    get isBreaking(): boolean {
+        return this.breaksFiles || this.breaksModels;
+    }
+
+    compatString(): string {
+        if (this.breaksFiles && this.breaksModels) {
+            return 'breaks files and models';
+        } else if (this.breaksFiles) {
+            return 'breaks files';
+        } else if (this.breaksModels) {
+            return 'breaks models';
+        }
+        return 'compatible';
+    }
+
+    prettyString(): string {
+        const detail = (this.detail !== null)
+            ? `: ${this.detail}` : '';
+        return `${this.kind} ${this.subject}${detail}` +
+               ` -- ${this.compatString()}`;
+    }
+}
+
+/**
+ * Compare two schemas, reporting changes in the order of
+ * the declarations of `before`, followed by those only
+ * in `after`.
+ */
+export function diffSchemas(before: TreeSchema,
+                            after: TreeSchema)
+  : Array<SchemaChange>
+{
+    return new SchemaDiffer(before, after).diff();
+}
+
+class SchemaDiffer {
+    readonly before: TreeSchema;
+    readonly after: TreeSchema;
+    readonly changes: Array<SchemaChange>;
+
+    constructor(before: TreeSchema, after: TreeSchema) {
+        this.before = before;
+        this.after = after;
+        this.changes = [];
+    }
+
+    diff(): Array<SchemaChange> {
+        for (let decl of this.before.decls.values()) {
+            const other =
+                this.after.decls.maybeGet(decl.name);
+            if (other === undefined) {
+                this.declRemoved(decl);
+            } else {
+                this.diffDecl(decl, other);
+            }
+        }
+        for (let decl of this.after.decls.values()) {
+            if (! this.before.decls.has(decl.name)) {
+                this.add(ChangeKind.Added, declSubject(decl),
+                         null, false, false);
+            }
+        }
+        return this.changes;
+    }
+
+    private add(kind: ChangeKind, subject: string,
+                detail: string|null,
+                breaksFiles: boolean, breaksModels: boolean)
+    {
+        this.changes.push(new SchemaChange(kind, subject,
+                        detail, breaksFiles, breaksModels));
+    }
+
+    private declRemoved(decl: Declaration) {
+        // Typedefs are never coded themselves.
+        const breaksFiles = ! (decl instanceof Typedef);
+        this.add(ChangeKind.Removed, declSubject(decl), null,
+                 breaksFiles, false);
+    }
+
+    private diffDecl(before: Declaration, after: Declaration)
+    {
+        if (declKind(before) !== declKind(after)) {
+            this.add(ChangeKind.Changed, declSubject(before),
+                     `now ${declSubject(after)}`,
+                     true, true);
+        } else if (before instanceof Typedef) {
+            this.diffTypedef(before, after as Typedef);
+        } else if (before instanceof Enum) {
+            this.diffEnum(before, after as Enum);
+        } else {
+            assert(before instanceof Iface);
+            this.diffIface(before as Iface, after as Iface);
+        }
+    }
+
+    private diffTypedef(before: Typedef, after: Typedef) {
+        this.diffType(declSubject(before),
+                      before.aliased, after.aliased);
+    }
+
+    private diffEnum(before: Enum, after: Enum) {
+        const subject = declSubject(before);
+        const beforeValues = before.variants.map(v => v.value);
+        const afterValues = after.variants.map(v => v.value);
+
+        for (let value of beforeValues) {
+            if (! after.valueMap.has(value)) {
+                this.add(ChangeKind.Removed,
+                         `variant ${variantName(before, value)}`,
+                         null, true, true);
+            }
+        }
+        for (let value of afterValues) {
+            if (! before.valueMap.has(value)) {
+                this.add(ChangeKind.Added,
+                         `variant ${variantName(after, value)}`,
+                         null, true, true);
+            }
+        }
+
+        const kept = beforeValues.filter(
+                            v => after.valueMap.has(v));
+        const keptAfter = afterValues.filter(
+                            v => before.valueMap.has(v));
+        if (! sameArrays(kept, keptAfter)) {
+            this.add(ChangeKind.Changed, subject,
+                     'variants reordered', true, true);
+        }
+    }
+
+    private diffIface(before: Iface, after: Iface) {
+        const subject = declSubject(before);
+        const name = before.name.name;
+
+        if (before.isNode !== after.isNode) {
+            this.add(ChangeKind.Changed, subject,
+                     after.isNode ? 'now a node'
+                                  : 'no longer a node',
+                     true, true);
+        }
+
+        for (let field of before.fields) {
+            const other = after.getField(field.name);
+            const fieldSubject = `field ${name}.${field.name}`;
+            if (other === null) {
+                this.add(ChangeKind.Removed, fieldSubject,
+                         null, true, true);
+            } else {
+                this.diffField(fieldSubject, field, other);
+            }
+        }
+        for (let field of after.fields) {
+            if (before.getField(field.name) === null) {
+                this.add(ChangeKind.Added,
+                         `field ${name}.${field.name}`,
+                         null, true, true);
+            }
+        }
+
+        const kept = before.fields
+            .filter(f => after.getField(f.name) !== null)
+            .map(f => f.name);
+        const keptAfter = after.fields
+            .filter(f => before.getField(f.name) !== null)
+            .map(f => f.name);
+        if (! sameArrays(kept, keptAfter)) {
+            this.add(ChangeKind.Changed, subject,
+                     'fields reordered', true, true);
+        }
+    }
+
+    private diffField(subject: string,
+                      before: IfaceField, after: IfaceField)
+    {
+        this.diffType(subject, before.ty, after.ty);
+
+        if (before.isLazy !== after.isLazy) {
+            this.add(ChangeKind.Changed, subject,
+                     attrDetail('Lazy', after.isLazy),
+                     true, false);
+        }
+        if (before.isNonEmpty !== after.isNonEmpty) {
+            this.add(ChangeKind.Changed, subject,
+                     attrDetail('NonEmpty', after.isNonEmpty),
+                     true, true);
+        }
+        if (before.isTypeIndicator !== after.isTypeIndicator) {
+            this.add(ChangeKind.Changed, subject,
+                     attrDetail('TypeIndicator',
+                                after.isTypeIndicator),
+                     true, true);
+        }
+    }
+
+    /* Report a change of type if either the type or what
+     * it flattens to changed.  Only the latter breaks
+     * anything, and is reported as the types added to and
+     * removed from the flattened set, as unions are long.
+     */
+    private diffType(subject: string,
+                     before: FieldType, after: FieldType)
+    {
+        const beforeSet = before.flatten(this.before);
+        const afterSet = after.flatten(this.after);
+        if (! this.sameCodedTypes(beforeSet, afterSet)) {
+            const delta = this.typeSetDelta(beforeSet,
+                                            afterSet);
+            this.add(ChangeKind.Changed, subject,
+                     (delta.length > 0)
+                        ? `flattened types ${delta.join(' ')}`
+                        : 'flattened types reordered',
+                     true, true);
+        } else if (before.keyString() !== after.keyString()) {
+            this.add(ChangeKind.Changed, subject,
+                     `type ${before.prettyString()}` +
+                     ` -> ${after.prettyString()}`,
+                     false, false);
+        }
+    }
+
+    /* Whether two type sets are coded the same.  Arrays
+     * differing only in how their element type is written
+     * (e.g. where a `?` is nested) are, as their elements
+     * are coded with the flattened element type.
+     */
+    private sameCodedTypes(before: TypeSet, after: TypeSet)
+      : boolean
+    {
+        // The same set may hold arrays of a typedef which
+        // changed, so identical sets are compared too.
+        if (before.size !== after.size) {
+            return false;
+        }
+        return before.tys.every((ty, i) => {
+            const other = after.tys[i];
+            if ((ty instanceof FieldTypeArray) &&
+                (other instanceof FieldTypeArray))
+            {
+                return this.sameCodedTypes(
+                        ty.inner.flatten(this.before),
+                        other.inner.flatten(this.after));
+            }
+            return ty === other;
+        });
+    }
+
+    /* The types added to and removed from a flattened
+     * set, as `+Name` and `-Name`.  Arrays are paired up
+     * if both sets hold as many, and the changes to their
+     * element types given as `Array<+Name -Name>`.
+     */
+    private typeSetDelta(before: TypeSet, after: TypeSet)
+      : Array<string>
+    {
+        const beforeArrays = arrayTypes(before);
+        const afterArrays = arrayTypes(after);
+        const pairArrays =
+            (beforeArrays.length === afterArrays.length);
+
+        const keys = (tySet: TypeSet) => {
+            return tySet.tys.filter(ty => {
+                return ! (pairArrays &&
+                          (ty instanceof FieldTypeArray));
+            }).map(ty => ty.prettyString());
+        };
+        const beforeKeys = keys(before);
+        const afterKeys = keys(after);
+        const parts = [
+            ...afterKeys.filter(k => beforeKeys.indexOf(k) < 0)
+                        .map(k => `+${k}`),
+            ...beforeKeys.filter(k => afterKeys.indexOf(k) < 0)
+                         .map(k => `-${k}`)
+        ];
+
+        if (pairArrays) {
+            beforeArrays.forEach((ty, i) => {
+                const other = afterArrays[i];
+                const inner = this.typeSetDelta(
+                        ty.inner.flatten(this.before),
+                        other.inner.flatten(this.after));
+                if (inner.length > 0) {
+                    parts.push(`Array<${inner.join(' ')}>`);
+                }
+            });
+        }
+        return parts;
+    }
+}
+
+function declKind(decl: Declaration): string {
+    if (decl instanceof Typedef) {
+        return 'typedef';
+    } else if (decl instanceof Enum) {
+        return 'enum';
+    }
+    assert(decl instanceof Iface);
+    return 'iface';
+}
+
+function declSubject(decl: Declaration): string {
+    return `${declKind(decl)} ${decl.name.name}`;
+}
+
+function variantName(enm: Enum, value: string): string {
+    return `${enm.name.name}.${JSON.stringify(value)}`;
+}
+
+function attrDetail(attr: string, present: boolean)
+  : string
+{
+    return present ? `[${attr}] added`
+                   : `[${attr}] removed`;
+}
+
+function arrayTypes(tySet: TypeSet)
+  : Array<FieldTypeArray>
+{
+    const arrays = tySet.tys.filter(
+                        ty => ty instanceof FieldTypeArray);
+    return arrays as Array<FieldTypeArray>;
+}
+
+function sameArrays<T>(a: ReadonlyArray<T>,
+                       b: ReadonlyArray<T>)
+  : boolean
+{
+    return (a.length === b.length) &&
+           a.every((x, i) => x === b[i]);
+}
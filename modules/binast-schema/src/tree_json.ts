@@ -0,0 +1,360 @@
+
+import * as assert from 'assert';
+
+import {TreeSchema, TypeName, Identifier, Enum, Iface,
+        Value, Instance, FieldValues, InstanceMaker,
+        makePlainInstance}
+    from './tree_schema';
+import {FieldType, FieldTypePrimitive, FieldTypeIdent,
+        FieldTypeArray, FieldTypeIface, FieldTypeEnum,
+        TypeSet}
+    from './field_types';
+
+/**
+ * JSON serialization of trees, driven by the schema.
+ *
+ * Every value is written according to the type its
+ * field's type set resolves it to:
+ *
+ *      null, booleans and  as themselves, except numbers
+ *      numbers             JSON can't hold (NaN,
+ *                          infinities and -0), written as
+ *                          `{"f64": "<number>"}`
+ *      strings and         as strings
+ *      identifiers
+ *      enum variants       as their value in the webidl
+ *      arrays              as arrays
+ *      instances           `{"iface$": <name>, <field>:
+ *                          <value>, ...}`, or in the
+ *                          compact form `[<name>,
+ *                          <value>, ...]` with the values
+ *                          in field order
+ *
+ * In the compact form, arrays whose type set also holds
+ * ifaces (e.g. arrow bodies) are written as
+ * `{"array": [...]}`, to tell them from instances.
+ *
+ * `[TypeIndicator]` fields are left out.  Reading is
+ * driven by the type sets as well, and every value read
+ * is checked with `matchesValue`.
+ *
+ * Trees are stored as documents holding the fingerprint
+ * of the schema, and documents for any other schema are
+ * refused (see `Migration` to convert trees).
+ */
+export const TREE_JSON_FORMAT: string = 'binast-tree';
+
+export interface TreeJsonDocument {
+    readonly format: string;
+    readonly schema: string;
+    readonly compact: boolean;
+    readonly tree: any;
+}
+
+export class TreeJsonError extends Error {
+    // Where in the tree, e.g. `$Root.statements[2].test`.
+    readonly location: string;
+
+    constructor(location: string, msg: string) {
+        super(`${location}: ${msg}`);
+        this.location = location;
+    }
+}
+
+export class TreeJsonCodec {
+    readonly schema: TreeSchema;
+    readonly compact: boolean;
+    private readonly makeInstance: InstanceMaker;
+    private readonly typeSets: Map<FieldType, TypeSet>;
+
+    constructor(schema: TreeSchema,
+                compact: boolean = false,
+                makeInstance: InstanceMaker =
+                                    makePlainInstance)
+    {
+        this.schema = schema;
+        this.compact = compact;
+        this.makeInstance = makeInstance;
+        this.typeSets = new Map();
+    }
+
+    toDocument(root: Instance): TreeJsonDocument {
+        return {
+            format: TREE_JSON_FORMAT,
+            schema: this.schema.fingerprint,
+            compact: this.compact,
+            tree: this.encode(root)
+        };
+    }
+
+    /**
+     * Read a tree from a document, in whichever form it
+     * was written.
+     */
+    fromDocument(json: any): Instance {
+        if ((json === null) || (typeof(json) !== 'object') ||
+            (json.format !== TREE_JSON_FORMAT))
+        {
+            throw new Error('Not a tree document.');
+        }
+        if (json.schema !== this.schema.fingerprint) {
+            throw new Error(`Tree document is for schema` +
+                ` ${json.schema}, not` +
+                ` ${this.schema.fingerprint}.`);
+        }
+        assert(typeof(json.compact) === 'boolean');
+        const codec = (json.compact === this.compact)
+            ? this
+            : new TreeJsonCodec(this.schema, json.compact,
+                                this.makeInstance);
+        return codec.decode(json.tree);
+    }
+
+    encode(root: Instance): any {
+        return this.encodeInstance(root, '$Root');
+    }
+
+    decode(json: any): Instance {
+        return this.decodeInstance(json, '$Root');
+    }
+
+    private encodeValue(ty: FieldType, value: Value,
+                        location: string)
+      : any
+    {
+        const tySet = this.typeSetFor(ty);
+        const rty = tySet.resolveType(this.schema, value);
+        if (rty === null) {
+            throw new TreeJsonError(location,
+                `Value does not match ${ty.prettyString()}`);
+        }
+
+        const vty = rty.ty;
+        if (vty instanceof FieldTypePrimitive) {
+            return encodePrimitive(value);
+        } else if (vty instanceof FieldTypeIdent) {
+            return (value as Identifier).name;
+        } else if (vty instanceof FieldTypeEnum) {
+            const enm = this.schema.getDecl(vty.name) as Enum;
+            const idx = enm.indexOfName(value as string);
+            return enm.variants[idx].value;
+        } else if (vty instanceof FieldTypeArray) {
+            const items = (value as Array<Value>).map((v, i) => {
+                return this.encodeValue(vty.inner, v,
+                                        `${location}[${i}]`);
+            });
+            return (this.compact && hasIface(tySet))
+                ? {array: items} : items;
+        }
+        assert(vty instanceof FieldTypeIface);
+        return this.encodeInstance(value as Instance,
+                                   location);
+    }
+
+    private encodeInstance(inst: Instance, location: string)
+      : any
+    {
+        const iface = inst.iface$;
+        const fields = iface.fields.filter(
+                                f => !f.isTypeIndicator);
+        const values = fields.map(field => {
+            return this.encodeValue(field.ty,
+                        inst[field.name] as Value,
+                        `${location}.${field.name}`);
+        });
+
+        if (this.compact) {
+            return [iface.name.name, ...values];
+        }
+        const json = {iface$: iface.name.name};
+        fields.forEach((field, i) => {
+            json[field.name] = values[i];
+        });
+        return json;
+    }
+
+    private decodeValue(ty: FieldType, json: any,
+                        location: string)
+      : Value
+    {
+        const value = this.decodeShape(this.typeSetFor(ty),
+                                       json, location);
+        if (! ty.matchesValue(this.schema, value)) {
+            throw new TreeJsonError(location,
+                `Value does not match ${ty.prettyString()}`);
+        }
+        return value;
+    }
+
+    /* Read a value according to its JSON shape, and the
+     * types of that shape in the type set.
+     */
+    private decodeShape(tySet: TypeSet, json: any,
+                        location: string)
+      : Value
+    {
+        if ((json === null) ||
+            (typeof(json) === 'boolean') ||
+            (typeof(json) === 'number'))
+        {
+            return json;
+        } else if (typeof(json) === 'string') {
+            return this.decodeString(tySet, json, location);
+        } else if (json instanceof Array) {
+            if (this.compact && hasIface(tySet)) {
+                return this.decodeInstance(json, location);
+            }
+            return this.decodeArray(tySet, json, location);
+        } else if (typeof(json) === 'object') {
+            if (!this.compact && ('iface$' in json)) {
+                return this.decodeInstance(json, location);
+            } else if (typeof(json.f64) === 'string') {
+                return decodeNumber(json.f64, location);
+            } else if (this.compact &&
+                       (json.array instanceof Array))
+            {
+                return this.decodeArray(tySet, json.array,
+                                        location);
+            }
+        }
+        throw new TreeJsonError(location,
+            `Unexpected ${typeof(json)}`);
+    }
+
+    private decodeArray(tySet: TypeSet,
+                        json: Array<any>,
+                        location: string)
+      : Value
+    {
+        const arrayTys = tySet.tys.filter(
+                    ty => ty instanceof FieldTypeArray);
+        if (arrayTys.length !== 1) {
+            throw new TreeJsonError(location,
+                                    `Unexpected array`);
+        }
+        const inner = (arrayTys[0] as FieldTypeArray).inner;
+        return json.map((v, i) => {
+            return this.decodeValue(inner, v,
+                                    `${location}[${i}]`);
+        });
+    }
+
+    private decodeString(tySet: TypeSet, str: string,
+                         location: string)
+      : Value
+    {
+        const values = new Array<Value>();
+        for (let ty of tySet.tys) {
+            if (ty === FieldTypePrimitive.Str) {
+                values.push(str);
+            } else if (ty instanceof FieldTypeIdent) {
+                values.push(Identifier.make(str));
+            } else if (ty instanceof FieldTypeEnum) {
+                const enm = this.schema.getDecl(ty.name) as Enum;
+                if (enm.valueMap.has(str)) {
+                    const idx = enm.valueMap.get(str);
+                    values.push(enm.variants[idx].name.fullName);
+                }
+            }
+        }
+        if (values.length !== 1) {
+            throw new TreeJsonError(location,
+                `${(values.length > 1) ? 'Ambiguous'
+                                       : 'Unexpected'}` +
+                ` string ${JSON.stringify(str)}`);
+        }
+        return values[0];
+    }
+
+    private decodeInstance(json: any, location: string)
+      : Instance
+    {
+        if ((json === null) || (typeof(json) !== 'object')) {
+            throw new TreeJsonError(location,
+                                    `Expected an instance`);
+        }
+        const name = this.compact ? json[0] : json.iface$;
+        const decl = (typeof(name) === 'string')
+            ? this.schema.decls.maybeGet(TypeName.make(name))
+            : undefined;
+        if (! (decl instanceof Iface)) {
+            throw new TreeJsonError(location,
+                `No iface ${JSON.stringify(name)}`);
+        }
+        const iface = decl as Iface;
+        const fields = iface.fields.filter(
+                                f => !f.isTypeIndicator);
+
+        if (this.compact) {
+            if (json.length !== fields.length + 1) {
+                throw new TreeJsonError(location,
+                    `Expected ${fields.length} fields` +
+                    ` for ${name}`);
+            }
+        } else {
+            for (let key of Object.keys(json)) {
+                if ((key !== 'iface$') &&
+                    (iface.getField(key) === null))
+                {
+                    throw new TreeJsonError(location,
+                        `No field ${key} in ${name}`);
+                }
+            }
+        }
+
+        const values: FieldValues = {};
+        fields.forEach((field, i) => {
+            const fieldLocation = `${location}.${field.name}`;
+            const fieldJson = this.compact
+                ? json[i + 1] : json[field.name];
+            if (fieldJson === undefined) {
+                throw new TreeJsonError(fieldLocation,
+                    `Missing field of ${name}`);
+            }
+            const value = this.decodeValue(field.ty,
+                                fieldJson, fieldLocation);
+            if (! field.matchesAttributes(value)) {
+                throw new TreeJsonError(fieldLocation,
+                    `Value does not match` +
+                    ` [${field.extAttrs.join(', ')}]`);
+            }
+            values[field.name] = value;
+        });
+        return this.makeInstance(iface, values);
+    }
+
+    private typeSetFor(ty: FieldType): TypeSet {
+        if (! this.typeSets.has(ty)) {
+            this.typeSets.set(ty, ty.flatten(this.schema));
+        }
+        return this.typeSets.get(ty);
+    }
+}
+
+function hasIface(tySet: TypeSet): boolean {
+    return tySet.tys.some(ty => ty instanceof FieldTypeIface);
+}
+
+/* Numbers JSON can't hold are written as strings. */
+function encodePrimitive(value: Value): any {
+    if ((typeof(value) !== 'number') ||
+        (Number.isFinite(value) && !Object.is(value, -0)))
+    {
+        return value;
+    }
+    return {f64: Object.is(value, -0) ? '-0'
+                                      : String(value)};
+}
+
+function decodeNumber(str: string, location: string)
+  : number
+{
+    switch (str) {
+      case '-0': return -0;
+      case 'NaN': return NaN;
+      case 'Infinity': return Infinity;
+      case '-Infinity': return -Infinity;
+    }
+    throw new TreeJsonError(location,
+        `Bad number ${JSON.stringify(str)}`);
+}
@@ -1,5 +1,6 @@
 
 import * as assert from 'assert';
+import * as crypto from 'crypto';
 
 import {FieldType, TerminalFieldType, FieldTypeNamed,
         FieldTypeIface, FieldTypeEnum}
@@ -52,7 +53,7 @@ export class Identifier {
         let id = IDENTIFIERS.get(name);
         if (!id) {
             id = new Identifier(name);
-            TYPE_NAMES.set(name, id);
+            IDENTIFIERS.set(name, id);
         }
         return id;
     }
@@ -67,6 +68,44 @@ export type Value = null | boolean | number | string |
 export interface Instance {
     iface$: Iface;
 }
+
+/** The fields of an instance, keyed by name. */
+export type FieldValues = {[name: string]: Value};
+
+/**
+ * Builds an instance of an iface, when trees are built
+ * generically (see `Migration` and `TreeJsonCodec`).
+ * Trees of the generated TypeScript schema are built
+ * with its `make` functions, e.g.
+ * `TS[iface.name.name].make(fields)`.
+ */
+export type InstanceMaker =
+    (iface: Iface, fields: FieldValues) => Instance;
+
+/** Build an instance as a plain frozen object. */
+export function makePlainInstance(iface: Iface,
+                                  fields: FieldValues)
+  : Instance
+{
+    return Object.freeze(
+        Object.assign({iface$: iface}, fields));
+}
+
+/**
+ * A stable numeric id for a declaration or enum variant,
+ * hashed (32-bit FNV-1a) from its name so that it does
+ * not change when other declarations are added or
+ * reordered.
+ */
+export function stableId(key: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
 export function isValue(x: any): boolean {
     return (x === null) ||
            (typeof(x) === 'boolean') ||
@@ -84,21 +123,51 @@ export function isValue(x: any): boolean {
  * enums, and node declarations.
  *
  * One or more node declarations must be marked `Root`.
- * 
+ *
+ * The fingerprint of a schema identifies it regardless of
+ * the order of its declarations, so that anything built
+ * against one schema can refuse another.
  */
 export class TreeSchema {
     readonly decls: OrderedMap<TypeName, Declaration>;
+    readonly fingerprint: string;
 
     constructor(declArray: Array<Declaration>) {
         const decls = new OrderedMap<TypeName,
                                      Declaration>();
+        const ids = new Map<number, Declaration>();
         for (let decl of declArray) {
             decls.set(decl.name, decl);
+            if ((decl instanceof Iface) ||
+                (decl instanceof Enum))
+            {
+                const other = ids.get(decl.id);
+                assert(other === undefined,
+                       `Id of ${decl.name.name} collides` +
+                       ` with ${other && other.name.name}`);
+                ids.set(decl.id, decl);
+            }
         }
         this.decls = decls;
+        this.fingerprint = TreeSchema.computeFingerprint(
+                                                declArray);
         Object.freeze(this);
     }
 
+    /* Hash the declarations in a sorted order.  Field and
+     * variant order within a declaration is significant.
+     */
+    private static computeFingerprint(
+        declArray: Array<Declaration>)
+      : string
+    {
+        const declStrs = declArray.map(d => d.prettyString());
+        declStrs.sort();
+        const hash = crypto.createHash('sha256');
+        hash.update(JSON.stringify(declStrs));
+        return hash.digest('hex');
+    }
+
     getDecl(tn: TypeName): Declaration {
         assert(this.decls.has(tn));
         return this.decls.get(tn);
@@ -220,8 +289,12 @@ export class TreeSchema {
         }
 
         builds.push(...[
-        `            this['_schema'] = ` +
-                                `new S.TreeSchema(d);`,
+        `            const schema = new S.TreeSchema(d);`,
+        `            assert(schema.fingerprint ===`,
+        `                   SchemaFingerprint,`,
+        `                   'Schema fingerprint mismatch,' +`,
+        `                   ' regenerate this file.');`,
+        `            this['_schema'] = schema;`,
         `        }`,
         `        assert(this['_schema'] ` +
                             `instanceof S.TreeSchema);`,
@@ -232,6 +305,9 @@ export class TreeSchema {
         accum.push(...builds);
         accum.push("", "");
 
+        accum.push(...this.dumpIdentity());
+        accum.push("", "");
+
         // Typed definitions for nodes and enums
         // and typedefs.
         const defns: Array<string> = [];
@@ -249,6 +325,42 @@ export class TreeSchema {
         return accum.join('\n');
     }
 
+    /**
+     * Dump the fingerprint and the ids of declarations
+     * and variants.  Getting the reflected schema checks
+     * it still has the fingerprint it was generated with.
+     */
+    private dumpIdentity(): Array<string> {
+        const fpStr = JSON.stringify(this.fingerprint);
+        const lines: Array<string> = [
+            "/*** Schema Identity ***/",
+            "",
+            `export const SchemaFingerprint = ${fpStr};`,
+            "",
+            "export const DeclIds = Object.freeze({",
+        ];
+        const variants = new Array<EnumVariant>();
+        for (let decl of this.decls.values()) {
+            if (decl instanceof Enum) {
+                variants.push(...decl.variants);
+            }
+            if ((decl instanceof Iface) ||
+                (decl instanceof Enum))
+            {
+                lines.push(`    ${decl.name.name}:` +
+                           ` ${decl.id},`);
+            }
+        }
+        lines.push("});", "");
+        lines.push(
+            "export const VariantIds = Object.freeze({");
+        for (let v of variants) {
+            lines.push(`    ${v.name.fullName}: ${v.id},`);
+        }
+        lines.push("});");
+        return lines;
+    }
+
     prettyString(): string {
         const declArray = Array.from(this.decls.values());
 
@@ -401,12 +513,16 @@ export class EnumVariant {
     readonly name: EnumVariantName;
     readonly idx: number;
     readonly value: string;
+    // Hashed from the enum name and the value, which is
+    // what is coded for the variant.
+    readonly id: number;
 
     constructor(enumName, name, idx, value) {
         this.enumName = enumName;
         this.name = name;
         this.idx = idx;
         this.value = value;
+        this.id = stableId(`${enumName.name}.${value}`);
         Object.freeze(this);
     }
 
@@ -416,6 +532,7 @@ export class EnumVariant {
 }
 
 export class Enum extends Declaration {
+    readonly id: number;
     readonly variants: ReadonlyArray<EnumVariant>;
     readonly variantMap: Map<string, number>;
     readonly valueMap: Map<string, number>;
@@ -428,6 +545,7 @@ export class Enum extends Declaration {
         assert(variantNames.length === values.length);
 
         super(name);
+        this.id = stableId(name.name);
         const variants: Array<EnumVariant> = new Array();
 
         this.variants = variants;
@@ -447,6 +565,9 @@ export class Enum extends Declaration {
             this.variantMap.set(name.fullName, i);
             this.valueMap.set(value, i);
         }
+        const variantIds = new Set(variants.map(v => v.id));
+        assert(variantIds.size === variants.length,
+               `Variant ids of ${name.name} collide`);
         Object.freeze(variants);
         Object.freeze(this.variantMap);
         Object.freeze(this.valueMap);
@@ -567,6 +688,7 @@ export class Enum extends Declaration {
 
 
 export class Iface extends Declaration {
+    readonly id: number;
     readonly fields: ReadonlyArray<IfaceField>;
     readonly isNode: boolean;
 
@@ -575,6 +697,7 @@ export class Iface extends Declaration {
                 isNode: boolean)
     {
         super(name);
+        this.id = stableId(name.name);
         this.fields = Object.freeze(fields);
         this.isNode = isNode;
         Object.freeze(this);
@@ -601,6 +724,12 @@ export class Iface extends Declaration {
                (value['iface$'] === this);
     }
 
+    /** The field with the given name, if any. */
+    getField(name: string): IfaceField|null {
+        const field = this.fields.find(f => f.name === name);
+        return (field !== undefined) ? field : null;
+    }
+
     getInstanceField(field: IfaceField, inst: Instance):
       Value
     {
@@ -713,11 +842,18 @@ export class Iface extends Declaration {
             const ftEx = f.ty.reflectedString();
             const fnStr = JSON.stringify(f.name);
             const isLazyEx = f.isLazy ? 'true' : 'false';
+            const isNonEmptyEx =
+                f.isNonEmpty ? 'true' : 'false';
+            const isTypeIndicatorEx =
+                f.isTypeIndicator ? 'true' : 'false';
             builds.push(...[
             `        new S.IfaceField(`,
             `            /* name = */ ${fnStr},`,
             `            /* ty = */ ${ftEx},`,
-            `            /* isLazy = */ ${isLazyEx}),`,
+            `            /* isLazy = */ ${isLazyEx},`,
+            `            /* isNonEmpty = */ ${isNonEmptyEx},`,
+            `            /* isTypeIndicator = */ ` +
+                                `${isTypeIndicatorEx}),`,
             ]);
         }
         builds.push(...[
@@ -736,23 +872,74 @@ export class Iface extends Declaration {
     }
 }
 
+/*
+ * The webidl extended attributes of a field:
+ *
+ *  - `[Lazy]` fields may be coded apart from the rest of
+ *    the tree, to be decoded on demand.
+ *  - `[NonEmpty]` fields hold arrays which are never
+ *    empty.
+ *  - `[TypeIndicator]` fields hold the type of the node,
+ *    which is implied by its iface, so they are neither
+ *    visited nor coded.
+ */
 export class IfaceField {
     readonly name: string;
     readonly ty: FieldType;
     readonly isLazy: boolean;
+    readonly isNonEmpty: boolean;
+    readonly isTypeIndicator: boolean;
 
     constructor(name: string,
                 ty: FieldType,
-                isLazy?: boolean)
+                isLazy?: boolean,
+                isNonEmpty?: boolean,
+                isTypeIndicator?: boolean)
     {
         this.name = name;
         this.ty = ty;
         this.isLazy = !!isLazy;
+        this.isNonEmpty = !!isNonEmpty;
+        this.isTypeIndicator = !!isTypeIndicator;
         Object.freeze(this);
     }
 
+    /** The names of the field's extended attributes. */
+    get extAttrs(): Array<string> {
+        const attrs = new Array<string>();
+        if (this.isLazy) {
+            attrs.push('Lazy');
+        }
+        if (this.isNonEmpty) {
+            attrs.push('NonEmpty');
+        }
+        if (this.isTypeIndicator) {
+            attrs.push('TypeIndicator');
+        }
+        return attrs;
+    }
+
+    /** Whether a value meets the extended attributes of
+     * the field.  Its type is not checked.
+     */
+    matchesAttributes(value: Value): boolean {
+        if (this.isNonEmpty && (value instanceof Array)) {
+            return value.length > 0;
+        }
+        return true;
+    }
+
+    matchesValue(schema: TreeSchema, value: Value)
+      : boolean
+    {
+        return this.matchesAttributes(value) &&
+               this.ty.matchesValue(schema, value);
+    }
+
     prettyString() {
-        const attrPrefix = this.isLazy ? '[Lazy] ' : '';
+        const attrs = this.extAttrs;
+        const attrPrefix = (attrs.length > 0)
+            ? `[${attrs.join(', ')}] ` : '';
         const name = this.name;
         const tyStr = this.ty.prettyString();
         return `  ${attrPrefix}${name}: ${tyStr};`;
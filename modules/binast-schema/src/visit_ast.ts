@@ -1,7 +1,8 @@
 
 import * as assert from 'assert';
 
-import {TreeSchema, Typedef, Enum, Iface, Value, Instance}
+import {TreeSchema, Typedef, Enum, Iface, IfaceField,
+        Value, Instance}
     from './tree_schema';
 
 import {FieldType, TerminalFieldType,
@@ -167,6 +168,31 @@ class TreeCursor implements TreeLocation {
     }
 }
 
+/**
+ * The iface field a location holds the value of, or null
+ * if it is not a field (the root, or an array element).
+ * Only the shapes of ancestors are looked at, so this
+ * works on partly built trees, as when decoding.
+ */
+export function locationField(schema: TreeSchema,
+                              loc: TreeLocation)
+  : IfaceField|null
+{
+    const iter = loc.ancestors();
+    const key = iter.key;
+    iter.next();
+    if (iter.done || (typeof(key) !== 'string')) {
+        return null;
+    }
+    const ty = iter.shape.ty;
+    if (! (ty instanceof FieldTypeIface)) {
+        return null;
+    }
+    const iface = schema.getDecl(ty.name);
+    assert(iface instanceof Iface);
+    return (iface as Iface).getField(key);
+}
+
 export class PathIterator {
     readonly path: Path;
     index: number;
@@ -378,14 +404,25 @@ export class PathSuffix {
         }).join('/');
     }
 
+    /*
+     * The tag, alphabet index and alphabet of a value.
+     * `field` is the iface field holding the value, if
+     * any (see `locationField`), whose attributes may
+     * narrow the alphabet.
+     */
     valueTagAndIndex(schema: TreeSchema,
                      ty: TerminalFieldType,
-                     value: Value)
+                     value: Value,
+                     field: IfaceField|null = null)
       : [string, number, Array<string|number>]|null
     {
         if (ty instanceof FieldTypePrimitive) {
             return this.primValueTag(schema, ty, value);
         } else if (ty instanceof FieldTypeArray) {
+            if ((field !== null) && field.isNonEmpty) {
+                return this.nonEmptyArrayValueTag(schema, ty,
+                                                  value);
+            }
             return this.arrayValueTag(schema, ty, value);
         } else if (ty instanceof FieldTypeEnum) {
             return this.enumValueTag(schema, ty, value);
@@ -465,6 +502,28 @@ export class PathSuffix {
         return ['arrayLength', 16, alpha];
     }
 
+    /* Lengths of `[NonEmpty]` arrays, which need no
+     * entry for 0.
+     */
+    private nonEmptyArrayValueTag(schema: TreeSchema,
+                                  ty: FieldTypeArray,
+                                  value: Value)
+      : [string, number, Array<string|number>]|null
+    {
+        assert(value instanceof Array);
+        const arr = value as Array<Value>;
+        assert(arr.length > 0);
+        const alpha: Array<string|number> =
+            [1, 2, 3, 4, 5, 6, 7, 8, 9, 10,
+             11, 12, 13, 14, 15, 16, 'MISS'];
+        assert(alpha.length == 17);
+        if (arr.length <= 16) {
+            return ['nonEmptyArrayLength', arr.length - 1,
+                    alpha];
+        }
+        return ['nonEmptyArrayLength', 16, alpha];
+    }
+
     private enumValueTag(schema: TreeSchema,
                          ty: FieldTypeEnum,
                          value: Value)
@@ -589,8 +648,16 @@ export class Visitor {
         const inst = value as Instance;
 
         for (let field of inst.iface$.fields) {
+            // The type of a node is implied by its iface.
+            if (field.isTypeIndicator) {
+                continue;
+            }
             const ty = field.ty;
             const value = inst[field.name];
+            assert(field.matchesAttributes(value),
+                   `Field ${field.name} of` +
+                   ` ${inst.iface$.name.name} does not` +
+                   ` match its attributes`);
             // const bound = ty.flatten(this.schema);
             const bound = ty;
             const shape = this.resolveShape(ty, value);
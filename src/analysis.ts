@@ -2,7 +2,9 @@
 import * as assert from 'assert';
 import * as S from 'binast-schema';
 
-import {FileStore} from './file_store';
+import {FileStore, SOURCE_FILE_PATTERN} from './file_store';
+import {LiftOptions} from './lift_es6';
+import {SourceLocations} from './source_location';
 import * as TS from './typed_schema';
 import * as logger from './logger';
 
@@ -11,6 +13,7 @@ export abstract class Analysis {
     readonly scriptStore: FileStore;
     readonly resultStore: FileStore;
     readonly opts: object;
+    readonly liftOptions: LiftOptions;
 
     constructor(schema: S.TreeSchema,
                 scriptStore: FileStore,
@@ -21,6 +24,11 @@ export abstract class Analysis {
         this.scriptStore = scriptStore;
         this.resultStore = resultStore;
         this.opts = opts;
+        this.liftOptions = Object.freeze({
+            lazyFunctions: !!opts['lazy-functions'],
+            modules: !!opts['modules'],
+            locations: !!opts['locations']
+        });
     }
 
     abstract get name(): string;
@@ -40,8 +48,9 @@ export abstract class Analysis {
 
         this.beginAnalysis();
         for (let subpath of this.scriptStore.subpaths()) {
-            // Skip all subpaths not ending in '.js'
-            if (! subpath.match(/\.js$/)) {
+            // Skip all subpaths not ending in '.js' or
+            // '.mjs'
+            if (! subpath.match(SOURCE_FILE_PATTERN)) {
                 continue;
             }
 
@@ -53,13 +62,19 @@ export abstract class Analysis {
     private analyzeScriptFile(subpath: string) {
         this.log(`Analyzing ${subpath}`);
 
-        const script = this.scriptStore.readAst(subpath);
-        this.analyzeAst(subpath, script);
+        const {program, locations} =
+            this.scriptStore.liftFile(subpath,
+                                      this.liftOptions);
+        this.analyzeAst(subpath, program, locations);
         this.log(` ...done`);
     }
 
+    /* `locations` holds the source spans of the script's
+     * nodes with `--locations`, and is null otherwise.
+     */
     abstract analyzeAst(subpath: string,
-                        script: TS.Script);
+                        script: TS.Program,
+                        locations: SourceLocations|null);
 
     protected log(msg: string) {
         const p = 'ANALYSIS: ';
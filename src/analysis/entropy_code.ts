@@ -5,21 +5,52 @@ import * as S from 'binast-schema';
 import * as TS from '../typed_schema';
 import * as logger from '../logger';
 import {Analysis} from '../analysis';
-import {FileStore} from '../file_store';
+import {FileStore, SOURCE_FILE_PATTERN} from '../file_store';
 import {StringCache} from '../string_cache';
 import {RangeCoder} from '../range_coder';
-import {brotliBytes} from '../the_competition';
-import {jsStringToWtf8Bytes} from '../wtf8';
+import {jsStringToWtf8Bytes, wtf8BytesToJsString}
+    from '../wtf8';
+import {float64ToComponents, EXPONENT_VALUES,
+        MANTISSA_BYTES}
+    from '../float64';
+import {NUMBER_KINDS, isCommonCandidate, isSmallInt}
+    from './number_stats';
+import {VarUintCounter, VARUINT_MAX_GROUPS, varUintGroups,
+        varUintGroupKey, varUintLengthKey}
+    from './varuint_stats';
+import {AdaptiveOptions, Container, ModelDescriptor,
+        SECTION_LAZY, SECTION_MODEL, SECTION_STRINGS,
+        SECTION_TREE}
+    from '../container';
+import {STRING_KINDS, STRING_SECTION_METHODS,
+        StringGroups, encodeStringSection}
+    from '../string_section';
+import {LazySection, encodeLazySection, isLazyLocation}
+    from '../lazy_section';
+import {MODEL_BUNDLE_FORMAT, MODEL_BUNDLE_VERSION,
+        ModelBundle, ModelTableJson, checkModelBundle,
+        modelId, readModelBundle}
+    from '../model_bundle';
+import {MINIFIED, generateJs} from '../codegen';
+import {brotliBytes, gzipBytes} from '../the_competition';
+import {SourceLocations, formatLocation}
+    from '../source_location';
+
+/** Options controlling how a script is coded. */
+export interface EncodeOptions {
+    readonly embedModel: boolean;
+    readonly stringsMethod: string;
+    readonly adaptive: AdaptiveOptions|null;
+}
 
 export class EntropyCodeAnalysis
   extends Analysis
+  implements EncodeOptions
 {
-    readonly probTableMap: Map<string, ProbTable>;
-
-    readonly globalStrings: Map<string, number>;
-    readonly identModel: StringModel;
-    readonly propModel: StringModel;
-    readonly rawModel: StringModel;
+    readonly model: EntropyModel;
+    readonly embedModel: boolean;
+    readonly stringsMethod: string;
+    readonly adaptive: AdaptiveOptions|null;
 
     constructor(schema: S.TreeSchema,
                 scriptStore: FileStore,
@@ -28,34 +59,61 @@ export class EntropyCodeAnalysis
     {
         super(schema, scriptStore, resultStore, opts);
 
-        const suffixJson = resultStore.readJSON(
-                        "path-suffix/2/ALL.json");
-        this.probTableMap =
-            ProbTable.fromSuffixArrayJson(suffixJson);
-
-        const strWindowJson = resultStore.readJSON(
-                        "string-window/64/ALL.json");
-
-        const globalStringsJson = resultStore.readJSON(
-                        "global-strings/ALL.json");
-        assert(globalStringsJson instanceof Array);
-        this.globalStrings = new Map<string, number>(
-            globalStringsJson.slice(0, 4096).map((e,i) => {
-                assert(typeof(e['str']) == 'string');
-                return [e['str'] as string, i];
-            }));
-
-        const {idents, props, strings} =
-            ProbTable.fromStringWindowJson(strWindowJson);
+        this.model = EntropyCodeAnalysis.loadModel(
+                                schema, resultStore, opts);
+        const options =
+            EntropyCodeAnalysis.encodeOptions(opts);
+        this.embedModel = options.embedModel;
+        this.stringsMethod = options.stringsMethod;
+        this.adaptive = options.adaptive;
+    }
 
-        this.identModel = new StringModel('ident', idents,
-                new StringCache(idents.numEntries - 1));
+    /**
+     * Load the model given by `--entropy-model`, or the
+     * default one from the result dir.
+     */
+    static loadModel(schema: S.TreeSchema,
+                     resultStore: FileStore,
+                     opts: object)
+      : EntropyModel
+    {
+        const modelPath = opts['entropy-model'];
+        return modelPath
+            ? EntropyModel.readBundle(schema, modelPath)
+            : EntropyModel.readFrom(schema, resultStore,
+                                    DEFAULT_MODEL_DESCRIPTOR);
+    }
 
-        this.propModel = new StringModel('prop', props,
-                new StringCache(props.numEntries - 1));
+    /** Parse the `--entropy-*` coding options. */
+    static encodeOptions(opts: object): EncodeOptions {
+        const stringsMethod =
+            opts['entropy-strings'] || 'range';
+        assert(STRING_SECTION_METHODS.indexOf(
+                    stringsMethod) >= 0,
+               `Bad string section method` +
+               ` ${stringsMethod}`);
+
+        let adaptive: AdaptiveOptions|null = null;
+        if (opts['entropy-adaptive']) {
+            const _opt = (name: string, dflt: number) => {
+                const val = opts[`entropy-adapt-${name}`];
+                return (val === undefined) ? dflt
+                                           : Number(val);
+            };
+            const dflt = DEFAULT_ADAPTIVE_OPTIONS;
+            adaptive = Object.freeze({
+                increment: _opt('increment', dflt.increment),
+                limit: _opt('limit', dflt.limit),
+                priorMass: _opt('prior', dflt.priorMass)
+            });
+            AdaptiveProbTable.checkOptions(adaptive);
+        }
 
-        this.rawModel = new StringModel('raw', strings,
-                new StringCache(strings.numEntries - 1));
+        return Object.freeze({
+            embedModel: !!opts['entropy-embed-model'],
+            stringsMethod,
+            adaptive
+        });
     }
 
     get name(): string {
@@ -65,7 +123,8 @@ export class EntropyCodeAnalysis
     endAnalysis() {
     }
 
-    analyzeAst(subpath: string, script: TS.Script)
+    analyzeAst(subpath: string, script: TS.Program,
+               locations: SourceLocations|null)
     {
         const fileSize =
             this.scriptStore.sizeOfFile(subpath);
@@ -73,25 +132,15 @@ export class EntropyCodeAnalysis
             return;
         }
 
-        const handler = new EntropyCodeHandler(
-                                        script, this);
-        const visitor = S.Visitor.make({
-            schema: this.schema,
-            root: script,
-            handler: handler
-        });
-        visitor.visit();
-
-        const {bitsEmitted, symsEmitted, stringTable,
-               rangeCoder} = handler;
-        rangeCoder.encodeFinish();
-        const compressedBytes =
-            new Uint8Array(handler.compressedBytes);
+        const encoded = encodeScript(this.schema,
+                                     this.model, script, this,
+                                     locations);
+        const {handler, stringSection, containerBytes,
+               numStrings, stringsSize} = encoded;
+        const {bitsEmitted} = handler;
 
-        const packfile = subpath.replace(/.js$/, '.TSC');
-        const packpath =
-            this.dataPath(`${packfile}`);
-        this.resultStore.writeBytes(packpath, compressedBytes);
+        this.resultStore.writeBytes(packfilePath(subpath),
+                                    containerBytes);
 
         const labels = Array.from(bitsEmitted.keys()).sort(
         (a, b) => {
@@ -105,25 +154,62 @@ export class EntropyCodeAnalysis
             this.scriptStore.readCompressedBytes(
                                         subpath, 'brotli');
 
-        const brotliStringsSize =
-            brotliBytes(stringTable.encodedData()).length;
-
         logger.log(`REPORT ${fileSize} - ${subpath}`);
-        logger.log(`    StringTable ${stringTable.numEntries} entries of size ${stringTable.totalSize} -- brotli ${brotliStringsSize}`);
+        logger.log(`    StringTable ${numStrings} entries of size ${stringsSize} -- ${this.stringsMethod} ${stringSection.length}`);
 
         const totalBits = handler.bitsEmitted.get('sym');
         const totalBytes = ((totalBits / 8)>>>0) + 1;
-        const estimatedAllBytes = totalBytes + brotliStringsSize;
+        const estimatedAllBytes =
+            totalBytes + stringSection.length;
 
         const gzipBetter =
             roundN(totalBytes / gzipData.length, 10000);
         const brotliBetter =
             roundN(totalBytes / brotliData.length, 10000);
 
+        logger.log(`    Container ${containerBytes.length} bytes`);
+        const {lazySections} = handler;
+        if (lazySections.length > 0) {
+            const lazyBytes = lazySections.reduce(
+                (sum, section) => sum + section.bytes.length,
+                0);
+            logger.log(`    Lazy ${lazySections.length}` +
+                       ` sections of ${lazyBytes} bytes`);
+        }
+        if (this.adaptive) {
+            const {increment, limit, priorMass} =
+                this.adaptive;
+            const staticBits =
+                totalBits + handler.staticExtraBits;
+            const staticBytes = ((staticBits / 8)>>>0) + 1;
+            const adaptiveBetter =
+                roundN(totalBytes / staticBytes, 10000);
+            logger.log(`    Adaptive increment=${increment}` +
+                       ` limit=${limit} prior=${priorMass}` +
+                       ` [adaptive=${totalBytes}` +
+                       ` static=${staticBytes}` +
+                       ` // ${adaptiveBetter}]`);
+        }
         logger.log(`   [BinAST=${totalBytes} --> ${estimatedAllBytes}]` +
                    ` [gzip=${gzipData.length} // ${gzipBetter}]` +
                    ` [brotli=${brotliData.length} // ${brotliBetter}]`);
 
+        // Sources are often not minified, so compare with
+        // the tree re-emitted as minified JS as well.
+        const minData = jsStringToWtf8Bytes(
+                                generateJs(script, MINIFIED));
+        const minGzipData = gzipBytes(minData);
+        const minBrotliData = brotliBytes(minData);
+        const minBetter =
+            roundN(totalBytes / minData.length, 10000);
+        const minGzipBetter =
+            roundN(totalBytes / minGzipData.length, 10000);
+        const minBrotliBetter =
+            roundN(totalBytes / minBrotliData.length, 10000);
+        logger.log(`   [minified=${minData.length} // ${minBetter}]` +
+                   ` [gzip=${minGzipData.length} // ${minGzipBetter}]` +
+                   ` [brotli=${minBrotliData.length} // ${minBrotliBetter}]`);
+
         for (let label of labels) {
             const bits = handler.bitsEmitted.get(label);
             const syms = handler.symsEmitted.get(label);
@@ -137,44 +223,358 @@ export class EntropyCodeAnalysis
                 ` in ${rBits} bits`);
             logger.log(` ${rBitsPerSym} bits/symbol`);
         }
+
+        if (locations !== null) {
+            this.reportCostliestNodes(subpath, handler,
+                                      locations);
+        }
+    }
+
+    /**
+     * Log the located nodes that took the most bits to
+     * code, not counting the located nodes within them.
+     */
+    private reportCostliestNodes(
+        subpath: string,
+        handler: EntropyCodeHandler,
+        locations: SourceLocations)
+    {
+        const {nodeBits} = handler;
+        const nodes = Array.from(nodeBits.keys()).sort(
+        (a, b) => {
+            return nodeBits.get(b) - nodeBits.get(a);
+        });
+
+        logger.log(`Costliest nodes:`);
+        for (let node of nodes.slice(0, NUM_COSTLIEST_NODES)) {
+            const where = formatLocation(subpath,
+                                         locations.get(node));
+            const rBits = roundN(nodeBits.get(node), 100);
+            logger.log(`    ${where}` +
+                       ` ${node.iface$.name.name}` +
+                       ` - ${rBits} bits`);
+        }
     }
 }
 
-const SUFFIX_LENGTH: number = 2;
+/** How many nodes `--locations` reports the cost of. */
+const NUM_COSTLIEST_NODES: number = 20;
 
-class EntropyCodeHandler
-  implements S.VisitHandler
+/** The result of coding a single script. */
+export interface EncodedScript {
+    readonly handler: EntropyCodeHandler;
+    readonly stringSection: Uint8Array;
+    readonly containerBytes: Uint8Array;
+    readonly numStrings: number;
+    readonly stringsSize: number;
+}
+
+/** Code a script into a container. */
+export function encodeScript(schema: S.TreeSchema,
+                             model: EntropyModel,
+                             script: TS.Program,
+                             options: EncodeOptions,
+                             locations: SourceLocations|null
+                                = null)
+  : EncodedScript
 {
-    readonly root: S.Instance;
+    const handler = new EntropyCodeHandler(script, model,
+                                           options.adaptive,
+                                           locations);
+    const visitor = S.Visitor.make({
+        schema: schema,
+        root: script,
+        handler: handler
+    });
+    visitor.visit();
+    const treeBytes = handler.finish();
+
+    const stringGroups: StringGroups = new Map();
+    let numStrings: number = 0;
+    let stringsSize: number = 0;
+    handler.stringTables.forEach((table, kind) => {
+        stringGroups.set(kind, table.strings);
+        numStrings += table.numEntries;
+        stringsSize += table.totalSize;
+    });
+    const stringSection = encodeStringSection(
+                    stringGroups, options.stringsMethod);
+
+    const sections = new Map<string, Uint8Array>();
+    sections.set(SECTION_TREE, treeBytes);
+    sections.set(SECTION_STRINGS, stringSection);
+    if (handler.lazySections.length > 0) {
+        sections.set(SECTION_LAZY,
+            encodeLazySection(handler.lazySections));
+    }
+    if (options.embedModel) {
+        sections.set(SECTION_MODEL,
+            model.encodeSection(schema));
+    }
+    const container = new Container({
+        schema: schema.fingerprint,
+        model: model.descriptor,
+        modelId: model.id,
+        root: script.iface$.name.name,
+        adaptive: options.adaptive
+    }, sections);
+
+    return {
+        handler, stringSection,
+        containerBytes: container.encode(),
+        numStrings, stringsSize
+    };
+}
+
+/**
+ * Subpath (within the result store) of the compressed
+ * file for the given script subpath.
+ */
+export function packfilePath(subpath: string): string {
+    return `entropy-code/` +
+        subpath.replace(SOURCE_FILE_PATTERN, '.TSC');
+}
+
+export const SUFFIX_LENGTH: number = 2;
+
+/**
+ * The result-dir tables the encoder uses unless told
+ * otherwise.
+ */
+export const DEFAULT_MODEL_DESCRIPTOR: ModelDescriptor =
+    Object.freeze({
+        pathSuffix: `path-suffix/${SUFFIX_LENGTH}/ALL.json`,
+        suffixLength: SUFFIX_LENGTH,
+        stringWindow: 'string-window/64/ALL.json',
+        windowSize: 64,
+        globalStrings: 'global-strings/ALL.json',
+        globalStringsLimit: 4096,
+        numberStats: 'number-stats/ALL.json',
+        stringRefs: 'string-refs/ALL.json'
+    });
+
+/**
+ * Everything the entropy coder and decoder need to
+ * agree on: the path-suffix probability tables, the
+ * string window tables, the global strings, the raw
+ * string reference tables, and the float64 tables.
+ *
+ * All tables are kept in a single map, keyed as in the
+ * analysis results they were built from, so that a model
+ * can be exported to and loaded from a model bundle.
+ */
+export class EntropyModel {
+    readonly descriptor: ModelDescriptor;
+    readonly id: string;
+
     readonly probTableMap: Map<string, ProbTable>;
-    readonly symsEmitted: Map<string, number>;
-    readonly bitsEmitted: Map<string, number>;
+
+    readonly globalStringList: ReadonlyArray<string>;
+    readonly globalStrings: Map<string, number>;
     readonly identModel: StringModel;
     readonly propModel: StringModel;
     readonly rawModel: StringModel;
-    readonly globalStrings: Map<string, number>;
-    readonly stringTable: StringTable;
-    readonly compressedBytes: Array<number>;
-    readonly rangeCoder: any;
+    readonly stringRefModel: StringRefModel;
 
-    constructor(root: S.Instance,
-                analysis: EntropyCodeAnalysis)
+    readonly numberModel: NumberModel;
+    readonly missModel: VarUintModel;
+
+    constructor(descriptor: ModelDescriptor,
+                probTableMap: Map<string, ProbTable>,
+                globalStrings: Array<string>)
     {
-        this.root = root;
-        this.probTableMap = analysis.probTableMap;
-        this.symsEmitted = new Map();
-        this.bitsEmitted = new Map();
+        this.descriptor = descriptor;
+        this.probTableMap = probTableMap;
+        this.id = modelId(globalStrings,
+                          this.tablesBundleJson());
+
+        this.globalStringList =
+            Object.freeze(globalStrings.slice());
+        this.globalStrings = new Map<string, number>(
+            globalStrings.map((str, i) => {
+                assert(typeof(str) == 'string');
+                return [str, i] as [string, number];
+            }));
+
+        const _stringModel = (kind: string) => {
+            const key = StringModel.windowKey(kind);
+            const table = probTableMap.get(key);
+            assert(table, `Missing table ${key}`);
+            assert(table.numEntries ===
+                        descriptor.windowSize + 1);
+            return new StringModel(kind, table,
+                new StringCache(descriptor.windowSize));
+        };
+        this.identModel = _stringModel('ident');
+        this.propModel = _stringModel('prop');
+        this.rawModel = _stringModel('raw');
 
-        this.identModel = analysis.identModel;
-        this.propModel = analysis.propModel;
-        this.rawModel = analysis.rawModel;
-        this.globalStrings = analysis.globalStrings;
-        this.stringTable = new StringTable();
+        this.stringRefModel =
+            new StringRefModel(probTableMap);
+        this.numberModel = new NumberModel(probTableMap);
 
-        const compressedBytes = [];
-        this.compressedBytes = compressedBytes;
+        // No statistics are collected for the remainders
+        // of values in 'MISS' buckets.
+        this.missModel = VarUintModel.withPrior('miss');
+
+        Object.freeze(this);
+    }
+
+    get suffixLength(): number {
+        return this.descriptor.suffixLength;
+    }
+
+    /**
+     * Find the table for `tag` under the first of the
+     * given path suffixes (longest first) that has one.
+     */
+    lookupTable(suffixes: ReadonlyArray<S.PathSuffix>,
+                tag: string)
+      : ProbTable|null
+    {
+        for (let suffix of suffixes) {
+            const key = `${suffix.keyString()}#${tag}`;
+            const probTable = this.probTableMap.get(key);
+            if (probTable) {
+                return probTable;
+            }
+        }
+        return null;
+    }
+
+    private tablesBundleJson(): Array<ModelTableJson> {
+        return Array.from(this.probTableMap.values()).map(
+            table => table.toBundleJson());
+    }
+
+    toBundle(schema: S.TreeSchema): ModelBundle {
+        return {
+            format: MODEL_BUNDLE_FORMAT,
+            version: MODEL_BUNDLE_VERSION,
+            schema: schema.fingerprint,
+            model: this.descriptor,
+            globalStrings: this.globalStringList.slice(),
+            tables: this.tablesBundleJson()
+        };
+    }
+
+    /**
+     * Build a model from a bundle, refusing bundles
+     * trained against a different schema.
+     */
+    static fromBundle(schema: S.TreeSchema,
+                      bundle: ModelBundle)
+      : EntropyModel
+    {
+        if (bundle.schema !== schema.fingerprint) {
+            throw new Error('Model bundle schema mismatch.');
+        }
+        const probTableMap = new Map<string, ProbTable>();
+        for (let tableJson of bundle.tables) {
+            probTableMap.set(tableJson.key,
+                ProbTable.fromBundleJson(tableJson));
+        }
+        return new EntropyModel(bundle.model, probTableMap,
+                                bundle.globalStrings);
+    }
+
+    /** Load the model bundle at the given file path. */
+    static readBundle(schema: S.TreeSchema, path: string)
+      : EntropyModel
+    {
+        return EntropyModel.fromBundle(schema,
+                                       readModelBundle(path));
+    }
+
+    /** Serialize the model for a model section. */
+    encodeSection(schema: S.TreeSchema): Uint8Array {
+        return jsStringToWtf8Bytes(
+                    JSON.stringify(this.toBundle(schema)));
+    }
+
+    static decodeSection(schema: S.TreeSchema,
+                         bytes: Uint8Array)
+      : EntropyModel
+    {
+        const json = JSON.parse(wtf8BytesToJsString(bytes));
+        return EntropyModel.fromBundle(schema,
+                                checkModelBundle(json));
+    }
+
+    /**
+     * Load the tables named by `descriptor`, refusing
+     * results computed against another schema.
+     */
+    static readFrom(schema: S.TreeSchema,
+                    store: FileStore,
+                    descriptor: ModelDescriptor)
+      : EntropyModel
+    {
+        const readJSON = (subpath: string) => {
+            return store.readResultJSON(subpath, schema);
+        };
+        const globalStringsJson =
+            readJSON(descriptor.globalStrings);
+        assert(globalStringsJson instanceof Array);
+        const globalStrings = globalStringsJson
+            .slice(0, descriptor.globalStringsLimit)
+            .map(e => {
+                assert(typeof(e['str']) == 'string');
+                return e['str'] as string;
+            });
+
+        const strWindowJson =
+            readJSON(descriptor.stringWindow);
+        assert(strWindowJson.windowSize ===
+                    descriptor.windowSize);
+        const {idents, props, strings} =
+            ProbTable.fromStringWindowJson(strWindowJson);
+
+        const probTableMap = new Map<string, ProbTable>([
+            ... ProbTable.fromSuffixArrayJson(
+                    readJSON(descriptor.pathSuffix)),
+            ... [idents, props, strings].map(table => {
+                return [table.key, table] as
+                            [string, ProbTable];
+            }),
+            ... ProbTable.fromSuffixArrayJson(
+                    readJSON(descriptor.stringRefs)),
+            ... ProbTable.fromSuffixArrayJson(
+                    readJSON(descriptor.numberStats))
+        ]);
+        return new EntropyModel(descriptor, probTableMap,
+                                globalStrings);
+    }
+}
+
+/**
+ * The state of one coded stream: the string caches, the
+ * coding tables and the range coder.  The tree stream
+ * and every lazy section are coded with their own (see
+ * `lazy_section.ts`).
+ */
+class EncodeStream {
+    readonly identModel: StringModel;
+    readonly propModel: StringModel;
+    readonly rawModel: StringModel;
+    readonly tables: CodingTables;
+    readonly bytes: Array<number>;
+    readonly rangeCoder: any;
+
+    constructor(model: EntropyModel,
+                adaptive: AdaptiveOptions|null)
+    {
+        // String caches are per-stream state, so that the
+        // decoder can reproduce them from scratch.
+        this.identModel = model.identModel.withFreshCache();
+        this.propModel = model.propModel.withFreshCache();
+        this.rawModel = model.rawModel.withFreshCache();
+        this.tables = new CodingTables(adaptive);
+
+        const bytes = [];
+        this.bytes = bytes;
         const stream = {
-            writeByte(b) { compressedBytes.push(b); }
+            writeByte(b) { bytes.push(b); }
         };
         this.rangeCoder = new RangeCoder(stream);
 
@@ -186,52 +586,191 @@ class EntropyCodeHandler
         this.rangeCoder.encodeStart(/* byte = */ 0, 1);
     }
 
+    finish(): Uint8Array {
+        this.rangeCoder.encodeFinish();
+        return new Uint8Array(this.bytes);
+    }
+}
+
+/** A lazy section being coded. */
+interface OpenLazySection {
+    readonly index: number;
+    readonly outer: EncodeStream;
+    readonly stringStarts: Map<string, number>;
+}
+
+export class EntropyCodeHandler
+  implements S.VisitHandler
+{
+    readonly root: S.Instance;
+    readonly model: EntropyModel;
+    readonly adaptive: AdaptiveOptions|null;
+    readonly symsEmitted: Map<string, number>;
+    readonly bitsEmitted: Map<string, number>;
+    readonly globalStrings: Map<string, number>;
+    readonly stringRefModel: StringRefModel;
+    readonly numberModel: NumberModel;
+    readonly missModel: VarUintModel;
+    readonly stringTables: Map<string, StringTable>;
+
+    // The stream currently coded to.
+    stream: EncodeStream;
+
+    // Lazy sections by number, and the ones still open.
+    readonly lazySections: Array<LazySection>;
+    readonly openLazySections: Array<OpenLazySection>;
+
+    readonly suffixLength: number;
+
+    // How many more bits the static tables would have
+    // spent on the symbols coded with adaptive ones.
+    staticExtraBits: number;
+
+    // With source locations, the bits spent on each
+    // located node, not counting the located nodes within
+    // it, and the located nodes being coded.
+    readonly locations: SourceLocations|null;
+    readonly nodeBits: Map<S.Instance, number>;
+    readonly locatedNodes: Array<S.Instance>;
+
+    constructor(root: S.Instance,
+                model: EntropyModel,
+                adaptive: AdaptiveOptions|null,
+                locations: SourceLocations|null = null)
+    {
+        this.root = root;
+        this.locations = locations;
+        this.nodeBits = new Map();
+        this.locatedNodes = [];
+        this.model = model;
+        this.adaptive = adaptive;
+        this.suffixLength = model.suffixLength;
+        this.staticExtraBits = 0;
+        this.symsEmitted = new Map();
+        this.bitsEmitted = new Map();
+
+        this.globalStrings = model.globalStrings;
+        this.stringRefModel = model.stringRefModel;
+        this.numberModel = model.numberModel;
+        this.missModel = model.missModel;
+        this.stringTables = new Map();
+        for (let kind of STRING_KINDS) {
+            this.stringTables.set(kind, new StringTable());
+        }
+
+        this.stream = new EncodeStream(model, adaptive);
+        this.lazySections = [];
+        this.openLazySections = [];
+    }
+
+    /** Finish coding, returning the tree stream. */
+    finish(): Uint8Array {
+        assert(this.openLazySections.length === 0);
+        return this.stream.finish();
+    }
+
     begin(schema: S.TreeSchema, loc: S.TreeLocation) {
         const {key, shape, bound, value} = loc;
         // logger.log(`BEGIN ${shape.ty.prettyString()}` +
         //            ` ${key}`);
+        if (this.isLocated(value)) {
+            this.locatedNodes.push(value as S.Instance);
+        }
 
-        // Try to find a match from longest path suffix to
-        // shortest.
-        let matched: S.PathSuffix|null = null;
-        for (let i = SUFFIX_LENGTH; i >= 1; i--) {
+        // Collect the path suffixes from longest to
+        // shortest.  Tables are looked up in that order,
+        // so contexts not seen in training fall back to
+        // shorter suffixes.
+        const suffixes = new Array<S.PathSuffix>();
+        for (let i = this.suffixLength; i >= 1; i--) {
             const suffix = S.PathSuffix.forLocation(
                                 schema, loc, i);
             if (suffix !== null) {
-                matched = suffix;
-                break;
+                suffixes.push(suffix);
             }
         }
 
-        if (!matched) {
+        if (suffixes.length === 0) {
             assert(value === this.root);
             return;
         }
 
-        this.emit(schema, loc, matched);
+        if (isLazyLocation(schema, loc)) {
+            this.beginLazySection();
+        }
+        this.emit(schema, loc, suffixes);
     }
     end(schema: S.TreeSchema, loc: S.TreeLocation) {
+        if (isLazyLocation(schema, loc)) {
+            this.endLazySection();
+        }
+        if (this.isLocated(loc.value)) {
+            assert(this.locatedNodes.pop() === loc.value);
+        }
+    }
+
+    private isLocated(value: S.Value): boolean {
+        return (this.locations !== null) &&
+               (typeof(value) === 'object') &&
+               (value !== null) &&
+               (this.locations.get(value) !== null);
+    }
+
+    private stringCounts(): Map<string, number> {
+        const counts = new Map<string, number>();
+        this.stringTables.forEach((table, kind) => {
+            counts.set(kind, table.numEntries);
+        });
+        return counts;
+    }
+
+    private beginLazySection() {
+        this.openLazySections.push({
+            index: this.lazySections.length,
+            outer: this.stream,
+            stringStarts: this.stringCounts()
+        });
+        // Filled in when the section ends.
+        this.lazySections.push(null);
+        this.stream = new EncodeStream(this.model,
+                                       this.adaptive);
+    }
+
+    private endLazySection() {
+        const open = this.openLazySections.pop();
+        const {index, stringStarts} = open;
+        const stringCounts = this.stringCounts();
+        stringCounts.forEach((count, kind) => {
+            stringCounts.set(kind,
+                             count - stringStarts.get(kind));
+        });
+        this.lazySections[index] = {
+            bytes: this.stream.finish(),
+            numNested: this.lazySections.length - index - 1,
+            stringStarts, stringCounts
+        };
+        this.stream = open.outer;
     }
 
     private emit(schema: S.TreeSchema,
                  loc: S.TreeLocation,
-                 suffix: S.PathSuffix)
+                 suffixes: Array<S.PathSuffix>)
     {
         const {shape, value} = loc;
         const tySet = shape.typeSet;
         assert(tySet.tys.length > 0);
 
         // Emit the type tag.
-        this.emitType(schema, loc, suffix, tySet);
+        this.emitType(schema, loc, suffixes, tySet);
 
         // Emit the value tag, if needed.
-        this.emitValue(schema, loc, suffix,
+        this.emitValue(schema, loc, suffixes,
                        shape, value);
     }
 
     private emitType(schema: S.TreeSchema,
                      loc: S.TreeLocation,
-                     suffix: S.PathSuffix,
+                     suffixes: Array<S.PathSuffix>,
                      tySet: S.TypeSet)
     {
         const {shape} = loc;
@@ -247,19 +786,18 @@ class EntropyCodeHandler
 
         assert(typeSet.tys.length > 1);
 
-        const suffixKey = suffix.keyString();
-        const pathKey = `${suffixKey}#type`;
-        const probTable = this.probTableMap.get(pathKey);
-        assert(probTable, "Failed to get ProbTable.");
+        const probTable =
+            this.model.lookupTable(suffixes, 'type');
 
         //logger.log(`Emit type ${tyStr}`);
-        this.encodeWith(probTable, shape.index,
-                        ['type', tyStr]);
+        this.encodeSymbol(probTable, shape.index,
+                          typeSet.tys.length,
+                          ['type', tyStr]);
     }
 
     private emitValue(schema: S.TreeSchema,
                      loc: S.TreeLocation,
-                     suffix: S.PathSuffix,
+                     suffixes: Array<S.PathSuffix>,
                      shape: S.PathShape,
                      value: S.Value)
     {
@@ -267,8 +805,8 @@ class EntropyCodeHandler
         const ty = shape.ty;
         const tyStr = ty.prettyString();
 
-        const valtag = suffix.valueTagAndIndex(
-                                    schema, ty, value);
+        const valtag = suffixes[0].valueTagAndIndex(
+            schema, ty, value, S.locationField(schema, loc));
         if (valtag === null) {
             // No value to encode, either an iface or
             // an identifier.
@@ -280,10 +818,10 @@ class EntropyCodeHandler
 
                 if (ty.tag === 'ident') {
                     this.emitStringRef(
-                        this.identModel, valueStr);
+                        this.stream.identModel, valueStr);
                 } else if (ty.tag === 'prop') {
                     this.emitStringRef(
-                        this.propModel, valueStr);
+                        this.stream.propModel, valueStr);
                 } else {
                     throw new Error(`Unknon ident tag ` +
                                     ty.tag);
@@ -292,7 +830,7 @@ class EntropyCodeHandler
             }
 
             if (ty === S.FieldTypePrimitive.Str) {
-                this.emitStringRef(this.rawModel,
+                this.emitStringRef(this.stream.rawModel,
                                    value as string);
                 return;
             }
@@ -312,13 +850,53 @@ class EntropyCodeHandler
         }
 
         const [tag, index, alpha] = valtag;
-        const pathStr = `${suffix.keyString()}#${tag}`;
-
-        const probTable = this.probTableMap.get(pathStr);
-        assert(probTable);
+        const probTable =
+            this.model.lookupTable(suffixes, tag);
 
         //logger.log(`Emit value ${tyStr}`);
-        this.encodeWith(probTable, index, ['value', tyStr]);
+        this.encodeSymbol(probTable, index, alpha.length,
+                          ['value', tyStr]);
+
+        // Values that land in the 'MISS' bucket are
+        // followed by their exact remainder.
+        if (alpha[index] === 'MISS') {
+            this.emitMissValue(tag, value, index);
+        }
+    }
+
+    private emitMissValue(tag: string,
+                          value: S.Value,
+                          missIndex: number)
+    {
+        const isLength = (tag === 'arrayLength') ||
+                         (tag === 'nonEmptyArrayLength');
+        const num = isLength
+                        ? (value as Array<S.Value>).length
+                        : (value as number);
+        assert(Number.isInteger(num));
+
+        if (tag === 'int') {
+            // Int alphabet covers [-1, 6].  Encode which
+            // side of that range we fell off, then the
+            // distance from it.
+            const negative = (num < -1);
+            this.stream.rangeCoder.encodeBit(negative);
+            this.noteEmittedSym(['value', tag, 'sign'], 1);
+            this.encodeVarUint(this.missModel,
+                               negative ? (-2 - num)
+                                        : (num - 7),
+                               ['value', tag, 'miss']);
+            return;
+        }
+
+        // Uints and array lengths: the bucket index is
+        // the first value not covered by the alphabet, but
+        // for non-empty array lengths, which start at 1.
+        const firstMissed = (tag === 'nonEmptyArrayLength')
+                                ? missIndex + 1 : missIndex;
+        assert(num >= firstMissed);
+        this.encodeVarUint(this.missModel, num - firstMissed,
+                           ['value', tag, 'miss']);
     }
 
     private emitStringRef(model: StringModel, val: string) {
@@ -341,38 +919,112 @@ class EntropyCodeHandler
     private emitRawStringRef(model: StringModel,
                              val: string)
     {
-        let idx: number = 0;
-        if (this.globalStrings.has(val)) {
-            idx = this.globalStrings.get(val);
-        } else {
-            idx = this.stringTable.indexOf(val) +
-                    this.globalStrings.size;
-        }
+        const {stringRefModel} = this;
         const {kind} = model;
-        
-        // logger.log(`Emit escape string ${idx}` +
-        //            ` - ${kind}`);
-        this.encodeVarUint(idx, ['string', 'escape', kind]);
+        const [refClass, num] = StringRefModel.refFor(
+                val, this.globalStrings,
+                this.stringTables.get(kind));
+
+        // logger.log(`Emit escape string ${refClass}` +
+        //            ` ${num} - ${kind}`);
+        this.encodeWith(stringRefModel.classTable(kind),
+                        refClass,
+                        ['string', 'escape', kind, 'class']);
+        switch (refClass) {
+          case StringRefModel.REF_GLOBAL:
+            this.encodeVarUint(stringRefModel.globalIndex,
+                        num, ['string', 'escape', kind]);
+            break;
+          case StringRefModel.REF_OLD:
+            this.encodeVarUint(stringRefModel.distance,
+                        num, ['string', 'escape', kind]);
+            break;
+        }
     }
 
     private emitF64(val: number) {
         assert(typeof(val) === 'number');
-        // logger.log(`Emit escape f64`);
-        this.encodeRaw64(val, ['value', 'f64']);
+        const {numberModel} = this;
+
+        const kind = numberModel.kindOf(val);
+        this.encodeWith(numberModel.kinds, kind,
+                        ['value', 'f64', 'kind']);
+
+        switch (kind) {
+          case NumberModel.KIND_COMMON:
+            this.encodeWith(numberModel.common,
+                            numberModel.commonIndex(val),
+                            ['value', 'f64', 'common']);
+            return;
+          case NumberModel.KIND_SMALL_INT:
+            this.encodeVarUint(numberModel.smallInt, val,
+                               ['value', 'f64', 'smallInt']);
+            return;
+        }
+
+        assert(kind === NumberModel.KIND_DOUBLE);
+        const {negative, exponent, mantissa} =
+            float64ToComponents(val);
+        this.encodeWith(numberModel.sign, negative ? 1 : 0,
+                        ['value', 'f64', 'sign']);
+        this.encodeWith(numberModel.exponent, exponent,
+                        ['value', 'f64', 'exponent']);
+        this.encodeWith(numberModel.mantissaBytes,
+                        mantissa.length,
+                        ['value', 'f64', 'mantissa']);
+        for (let b of mantissa) {
+            this.stream.rangeCoder.encodeByte(b);
+        }
+        this.noteEmittedSym(['value', 'f64', 'mantissa'],
+                            mantissa.length * 8);
+    }
+
+    /**
+     * Encode a symbol with the given table, or as a
+     * literal if no table was found for its context.
+     */
+    private encodeSymbol(probTable: ProbTable|null,
+                         index: number,
+                         alphabetSize: number,
+                         category: Array<string>)
+    {
+        if (probTable === null) {
+            this.encodeLiteral(index, alphabetSize,
+                               category.concat(['literal']));
+            return;
+        }
+        assert(probTable.numEntries === alphabetSize);
+        this.encodeWith(probTable, index, category);
     }
 
     private encodeWith(probTable: ProbTable,
                        index: number,
                        category: Array<string>)
     {
-        const offsetSizeTotal =
-            probTable.getOffsetSizeTotal(index);
-        assert(offsetSizeTotal);
-        const [offset, size, total] = offsetSizeTotal;
+        const {tables} = this.stream;
+        const table = tables.get(probTable);
+        const [offset, size, total] =
+            table.getOffsetSizeTotal(index);
+
+        if (table !== probTable) {
+            this.staticExtraBits +=
+                ProbTable.costOf(probTable, index) -
+                ProbTable.costOf(table, index);
+        }
 
-        // TODO: Handle size === 0 by encoding an escape
-        // followed by literal symbol code.
-        assert(size > 0);
+        // Symbols never seen in training are coded as an
+        // escape, followed by the literal symbol index.
+        if (size === 0) {
+            assert(table.allowEscape);
+            this.noteEmittedSym(category.concat(['unseen']),
+                                Math.log2(total));
+            this.stream.rangeCoder.encodeFreq(1,
+                table.escapeOffset, total);
+            this.encodeLiteral(index, table.numEntries,
+                               category.concat(['literal']));
+            tables.update(probTable, index);
+            return;
+        }
 
         const prob = size / total;
         const pct = roundN(prob * 100);
@@ -381,48 +1033,34 @@ class EntropyCodeHandler
 
         // logger.log(`    pct=${pct}% bits=${rbits}`);
         this.noteEmittedSym(category, bits);
-        this.rangeCoder.encodeFreq(size, offset, total);
+        this.stream.rangeCoder.encodeFreq(size, offset,
+                                          total);
+        tables.update(probTable, index);
     }
 
-    private encodeRaw64(value: number,
-                        category: Array<string>)
+    private encodeLiteral(index: number,
+                          alphabetSize: number,
+                          category: Array<string>)
     {
-        // logger.log(`    raw64 bits=64`);
-        this.noteEmittedSym(category, 64);
-        // TODO: Actually encode the float64 raw bits!
-        // TODO: Predict float64s by component: sign,
-        //       exponent (debiased), and mantissa.
-        for (let i = 0; i < 8; i++) {
-            this.rangeCoder.encodeByte(0x00);
-        }
-        // logger.log(``);
+        assert(index >= 0 && index < alphabetSize);
+        this.noteEmittedSym(category,
+                            Math.log2(alphabetSize));
+        this.stream.rangeCoder.encodeFreq(1, index,
+                                          alphabetSize);
     }
 
-    private encodeVarUint(value: number,
+    private encodeVarUint(model: VarUintModel,
+                          value: number,
                           category: Array<string>)
     {
-        let bits: number = 0;
-        if (value < 0x80) { // 7 bits
-            bits = 8;
-        } else if (value < 0x4000) { // 14 bits
-            bits = 16;
-        } else if (value < 0x20000) { // 21 bits.
-            bits = 24;
-        } else if (value < 0x10000000) { // 28 bits.
-            bits = 28;
-        } else {
-            throw new Error('Unhandled uint size');
-        }
-        // TODO: Actually encode the uint raw bits!
-        // TODO: Predict uints by both size and
-        //       byte location within.
-        for (let i = 0; i < bits; i += 8) {
-            this.rangeCoder.encodeByte(0x00);
-        }
-
-        // logger.log(`    varuint bits=${bits}`);
-        this.noteEmittedSym(category, bits);
-        // logger.log(``);
+        const groups = varUintGroups(value);
+        const len = groups.length;
+        this.encodeWith(model.lengths, len - 1,
+                        category.concat(['length']));
+        groups.forEach((g, pos) => {
+            this.encodeWith(model.groupTable(len, pos), g,
+                            category.concat(['group']));
+        });
     }
 
     private noteEmittedSym(name: Array<string>,
@@ -434,6 +1072,12 @@ class EntropyCodeHandler
             incrMapEntry(this.bitsEmitted, prefixStr, bits);
             incrMapEntry(this.symsEmitted, prefixStr, 1);
         }
+
+        const {locatedNodes} = this;
+        if (locatedNodes.length > 0) {
+            incrMapEntry(this.nodeBits,
+                locatedNodes[locatedNodes.length - 1], bits);
+        }
     }
 }
 
@@ -441,8 +1085,8 @@ function roundN(n: number, k: number = 100): number {
     return Math.floor(n * k) / k;
 }
 
-function incrMapEntry(s: Map<string, number>, key: string,
-                      incr: number)
+function incrMapEntry<K>(s: Map<K, number>, key: K,
+                         incr: number)
   : number
 {
     let num = s.get(key);
@@ -455,7 +1099,7 @@ function incrMapEntry(s: Map<string, number>, key: string,
     return newNum;
 }
 
-class StringTable {
+export class StringTable {
     readonly strings: Array<string>;
     readonly indexMap: Map<string, number>;
 
@@ -499,20 +1143,9 @@ class StringTable {
         }
         return size;
     }
-
-    encodedData(): Uint8Array {
-        const b = new Array<number>();
-        for (let s of this.strings) {
-            for (let n of jsStringToWtf8Bytes(s)) {
-                b.push(n);
-            }
-        }
-        b.push(("\n").charCodeAt(0));
-        return new Uint8Array(b);
-    }
 }
 
-class StringModel {
+export class StringModel {
     readonly kind: string;
     readonly table: ProbTable;
     readonly cache: StringCache;
@@ -526,6 +1159,413 @@ class StringModel {
         this.cache = cache;
         Object.freeze(this);
     }
+
+    withFreshCache(): StringModel {
+        return new StringModel(this.kind, this.table,
+                    new StringCache(this.cache.limit));
+    }
+
+    static windowKey(kind: string): string {
+        return `window#${kind}`;
+    }
+}
+
+/**
+ * Strings that miss in the string caches are coded by
+ * reference.  A reference is one of:
+ *  - 'global': an index into the global strings.
+ *  - 'new': the next entry in the per-file string table
+ *    for the string's kind.  Strings are added to the
+ *    table in order of first reference, so nothing more
+ *    is needed.
+ *  - 'old': an earlier entry of that string table, coded
+ *    as its distance back from the most recent entry.
+ *
+ * The tables are produced by the string-refs analysis.
+ */
+export class StringRefModel {
+    static readonly REF_GLOBAL: number = 0;
+    static readonly REF_NEW: number = 1;
+    static readonly REF_OLD: number = 2;
+
+    static readonly REF_NAMES: ReadonlyArray<string> =
+        Object.freeze(['global', 'new', 'old']);
+
+    readonly classes: Map<string, ProbTable>;
+    readonly globalIndex: VarUintModel;
+    readonly distance: VarUintModel;
+
+    constructor(tables: Map<string, ProbTable>) {
+        this.classes = new Map();
+        for (let kind of STRING_KINDS) {
+            const key = StringRefModel.classKey(kind);
+            const table = tables.get(key);
+            assert(table, `Missing table ${key}`);
+            assert(table.numEntries ===
+                        StringRefModel.REF_NAMES.length);
+            this.classes.set(kind, table);
+        }
+        this.globalIndex = new VarUintModel('global', tables);
+        this.distance = new VarUintModel('distance', tables);
+        Object.freeze(this);
+    }
+
+    classTable(kind: string): ProbTable {
+        const table = this.classes.get(kind);
+        assert(table, `Unknown string kind ${kind}`);
+        return table;
+    }
+
+    static classKey(kind: string): string {
+        return `strref#${kind}`;
+    }
+
+    /**
+     * Compute the reference class and number for a
+     * string, adding it to `stringTable` if needed.
+     */
+    static refFor(str: string,
+                  globalStrings: Map<string, number>,
+                  stringTable: StringTable)
+      : [number, number]
+    {
+        if (globalStrings.has(str)) {
+            return [StringRefModel.REF_GLOBAL,
+                    globalStrings.get(str)];
+        }
+        const numEntries = stringTable.numEntries;
+        const idx = stringTable.indexOf(str);
+        if (idx === numEntries) {
+            return [StringRefModel.REF_NEW, 0];
+        }
+        return [StringRefModel.REF_OLD,
+                numEntries - 1 - idx];
+    }
+}
+
+/**
+ * A varuint coded through range-coder tables, by length
+ * class and then by 7-bit group within that length.  See
+ * `varuint_stats.ts` for the layout of the tables.
+ */
+export class VarUintModel {
+    readonly name: string;
+    readonly lengths: ProbTable;
+    readonly groups: Map<string, ProbTable>;
+
+    constructor(name: string,
+                tables: Map<string, ProbTable>)
+    {
+        const _get = (key: string) => {
+            const table = tables.get(key);
+            assert(table, `Missing varuint table ${key}`);
+            return table;
+        };
+        this.name = name;
+        this.lengths = _get(varUintLengthKey(name));
+        assert(this.lengths.numEntries ===
+                    VARUINT_MAX_GROUPS);
+
+        this.groups = new Map();
+        for (let len = 1; len <= VARUINT_MAX_GROUPS; len++) {
+            for (let pos = 0; pos < len; pos++) {
+                const key = varUintGroupKey(name, len, pos);
+                this.groups.set(key, _get(key));
+            }
+        }
+        Object.freeze(this);
+    }
+
+    groupTable(length: number, pos: number): ProbTable {
+        return this.groups.get(
+                    varUintGroupKey(this.name, length, pos));
+    }
+
+    /**
+     * A model for values without collected statistics,
+     * favoring short values.
+     */
+    static withPrior(name: string): VarUintModel {
+        const counter = new VarUintCounter(name);
+        for (let len = 1; len <= VARUINT_MAX_GROUPS; len++) {
+            counter.lengths[len - 1] =
+                1 << (2 * (VARUINT_MAX_GROUPS - len));
+        }
+        return new VarUintModel(name,
+            ProbTable.fromSuffixArrayJson(
+                        counter.summarizeFreqs()));
+    }
+}
+
+/**
+ * The tables used to code float64 values, as produced by
+ * the number-stats analysis.  See `NumberStatsAnalysis`
+ * for a description of the coding.
+ */
+export class NumberModel {
+    static readonly KIND_COMMON: number = 0;
+    static readonly KIND_SMALL_INT: number = 1;
+    static readonly KIND_DOUBLE: number = 2;
+
+    readonly kinds: ProbTable;
+    readonly common: ProbTable;
+    readonly sign: ProbTable;
+    readonly exponent: ProbTable;
+    readonly mantissaBytes: ProbTable;
+    readonly smallInt: VarUintModel;
+
+    private readonly commonIndices: Map<number, number>;
+
+    constructor(tables: Map<string, ProbTable>) {
+        const _get = (name: string) => {
+            const table = tables.get(`f64#${name}`);
+            assert(table, `Missing f64 table ${name}`);
+            return table;
+        };
+        this.kinds = _get('kind');
+        this.common = _get('common');
+        this.sign = _get('sign');
+        this.exponent = _get('exponent');
+        this.mantissaBytes = _get('mantissaBytes');
+        this.smallInt = new VarUintModel('smallInt', tables);
+
+        assert(this.kinds.numEntries === NUMBER_KINDS.length);
+        assert(this.exponent.numEntries === EXPONENT_VALUES);
+        assert(this.mantissaBytes.numEntries ===
+                    MANTISSA_BYTES + 1);
+
+        this.commonIndices = new Map();
+        this.common.names.forEach((name, i) => {
+            assert(typeof(name) === 'number');
+            this.commonIndices.set(name as number, i);
+        });
+        Object.freeze(this);
+    }
+
+    kindOf(value: number): number {
+        if (this.commonIndex(value) >= 0) {
+            return NumberModel.KIND_COMMON;
+        }
+        if (isSmallInt(value)) {
+            return NumberModel.KIND_SMALL_INT;
+        }
+        return NumberModel.KIND_DOUBLE;
+    }
+
+    commonIndex(value: number): number {
+        // Maps do not distinguish `-0` from `0`.
+        if (! isCommonCandidate(value)) {
+            return -1;
+        }
+        const idx = this.commonIndices.get(value);
+        return (typeof(idx) === 'number') ? idx : -1;
+    }
+
+    commonValue(idx: number): number {
+        return this.common.names[idx] as number;
+    }
+}
+
+/**
+ * The interface the coder uses to code symbols with a
+ * table.  Implemented by `ProbTable` (static), and by
+ * `AdaptiveProbTable`.
+ */
+export interface SymbolTable {
+    readonly key: string;
+    readonly numEntries: number;
+    readonly probSum: number;
+    readonly allowEscape: boolean;
+    readonly escapeOffset: number;
+    getOffsetSizeTotal(idx: number)
+      : [number, number, number];
+    indexOfCumFreq(cumFreq: number): number;
+}
+
+/**
+ * Binary search for the first accumulated entry strictly
+ * greater than `cumFreq`.  Returns -1 for the escape
+ * range past the last entry.
+ */
+function searchAccum(accum: Uint32Array, cumFreq: number,
+                     allowEscape: boolean)
+  : number
+{
+    if (cumFreq >= accum[accum.length - 1]) {
+        assert(allowEscape);
+        return -1;
+    }
+
+    let lo: number = 0;
+    let hi: number = accum.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (accum[mid] > cumFreq) {
+            hi = mid;
+        } else {
+            lo = mid + 1;
+        }
+    }
+    return lo;
+}
+
+export const DEFAULT_ADAPTIVE_OPTIONS: AdaptiveOptions =
+    Object.freeze({
+        increment: 32,
+        limit: 1 << 16,
+        priorMass: 4096
+    });
+
+// Keep totals well within the range coder's precision.
+const ADAPTIVE_MAX_TOTAL: number = 1 << 20;
+
+/**
+ * A table whose frequencies are updated as symbols are
+ * coded.  The frequency of each symbol is the sum of:
+ *  - Its static probability, scaled to sum to
+ *    `priorMass`.  Symbols that the static table can
+ *    only escape to keep a prior of zero.
+ *  - An adaptive count, bumped by `increment` each time
+ *    the symbol is coded.  When the adaptive counts sum
+ *    past `limit`, they are all halved.
+ *
+ * With a `priorMass` of zero, the static table is
+ * ignored and every adaptive count starts at 1.
+ */
+export class AdaptiveProbTable implements SymbolTable {
+    readonly key: string;
+    readonly options: AdaptiveOptions;
+    readonly prior: Uint32Array;
+    readonly counts: Uint32Array;
+    readonly accum: Uint32Array;
+    countSum: number;
+    allowEscape: boolean;
+    probSum: number;
+
+    constructor(table: ProbTable, options: AdaptiveOptions) {
+        const n = table.numEntries;
+        this.key = table.key;
+        this.options = options;
+        this.prior = new Uint32Array(n);
+        this.counts = new Uint32Array(n);
+        this.accum = new Uint32Array(n);
+
+        if (options.priorMass > 0) {
+            const scale = options.priorMass /
+                            table.probSum;
+            for (let i = 0; i < n; i++) {
+                const size = table.sizeOf(i);
+                this.prior[i] = (size === 0) ? 0
+                    : Math.max(1, Math.round(size * scale));
+            }
+        } else {
+            this.counts.fill(1);
+        }
+        this.countSum = this.counts.reduce((a, b) => a + b, 0);
+        this.recompute();
+    }
+
+    get numEntries(): number {
+        return this.accum.length;
+    }
+    get escapeOffset(): number {
+        assert(this.allowEscape);
+        return this.accum[this.accum.length - 1];
+    }
+
+    getOffsetSizeTotal(idx: number)
+      : [number, number, number]
+    {
+        assert(idx < this.numEntries);
+        const offset = (idx == 0) ? 0 : this.accum[idx - 1];
+        return [offset, this.accum[idx] - offset,
+                this.probSum];
+    }
+
+    indexOfCumFreq(cumFreq: number): number {
+        assert(cumFreq < this.probSum);
+        return searchAccum(this.accum, cumFreq,
+                           this.allowEscape);
+    }
+
+    update(idx: number) {
+        const {increment, limit} = this.options;
+        this.counts[idx] += increment;
+        this.countSum += increment;
+        if (this.countSum > limit) {
+            this.countSum = 0;
+            for (let i = 0; i < this.counts.length; i++) {
+                this.counts[i] = (this.counts[i] + 1) >>> 1;
+                this.countSum += this.counts[i];
+            }
+        }
+        this.recompute();
+    }
+
+    private recompute() {
+        let total: number = 0;
+        let anyZero: boolean = false;
+        for (let i = 0; i < this.accum.length; i++) {
+            const freq = this.prior[i] + this.counts[i];
+            anyZero = anyZero || (freq === 0);
+            total += freq;
+            this.accum[i] = total;
+        }
+        this.allowEscape = anyZero;
+        this.probSum = total + (anyZero ? 1 : 0);
+        assert(this.probSum <= ADAPTIVE_MAX_TOTAL);
+    }
+
+    static checkOptions(options: AdaptiveOptions) {
+        const {increment, limit, priorMass} = options;
+        for (let n of [increment, limit, priorMass]) {
+            assert(Number.isInteger(n) && (n >= 0),
+                   `Bad adaptive option ${n}`);
+        }
+        assert(increment > 0, 'Adaptive increment is 0.');
+        assert(limit + increment + priorMass <=
+                    (ADAPTIVE_MAX_TOTAL >>> 1),
+               'Adaptive limit too large.');
+    }
+}
+
+/**
+ * The per-file tables used to code symbols.  Without
+ * adaptive options, these are just the static tables.
+ * Otherwise, each static table gets an adaptive copy the
+ * first time it is used.
+ */
+export class CodingTables {
+    readonly options: AdaptiveOptions|null;
+    private readonly adaptive: Map<ProbTable,
+                                   AdaptiveProbTable>;
+
+    constructor(options: AdaptiveOptions|null) {
+        if (options) {
+            AdaptiveProbTable.checkOptions(options);
+        }
+        this.options = options;
+        this.adaptive = new Map();
+    }
+
+    get(probTable: ProbTable): SymbolTable {
+        if (! this.options) {
+            return probTable;
+        }
+        let table = this.adaptive.get(probTable);
+        if (! table) {
+            table = new AdaptiveProbTable(probTable,
+                                          this.options);
+            this.adaptive.set(probTable, table);
+        }
+        return table;
+    }
+
+    update(probTable: ProbTable, idx: number) {
+        if (this.options) {
+            this.adaptive.get(probTable).update(idx);
+        }
+    }
 }
 
 /**
@@ -541,14 +1581,15 @@ class StringModel {
 const PROB_TABLE_SUM_BITS: number = 18;
 const PROB_TABLE_SUM: number = (1 << PROB_TABLE_SUM_BITS);
 
-class ProbTable {
+export class ProbTable {
     // Key to this prob table.
     readonly key: string;
 
     // names for each prob.
     readonly names: Array<string|number>;
 
-    // Non-normalized frequencies as provided.
+    // Frequencies as provided.  Normalized unless the
+    // table was loaded from a model bundle.
     readonly probs: Uint32Array;
 
     // For quick lookup, accumulation of probs.
@@ -562,7 +1603,8 @@ class ProbTable {
 
     constructor(key: string,
                 names: Array<string|number>,
-                probs: Uint32Array)
+                probs: Uint32Array,
+                normalized: boolean = false)
     {
         assert(names.length === probs.length);
 
@@ -572,7 +1614,18 @@ class ProbTable {
         this.probAccum = new Uint32Array(probs.length);
         this.allowEscape = (probs.indexOf(0) >= 0);
 
-        this.normalizeProbs();
+        if (normalized) {
+            let total: number = 0;
+            for (let i = 0; i < probs.length; i++) {
+                total += probs[i];
+                this.probAccum[i] = total;
+            }
+            assert(total + (this.allowEscape ? 1 : 0) <=
+                        PROB_TABLE_SUM,
+                   `Bad normalized table ${key}`);
+        } else {
+            this.normalizeProbs();
+        }
 
         this.probSum =
             this.probAccum[this.probAccum.length - 1] +
@@ -620,6 +1673,11 @@ class ProbTable {
         assert(idx < this.numEntries);
         return this.probAccum[idx] - this.offsetOf(idx);
     }
+    /** Start of the escape range, if allowed. */
+    get escapeOffset(): number {
+        assert(this.allowEscape);
+        return this.probAccum[this.probAccum.length - 1];
+    }
     getOffsetSizeTotal(idx: number)
       : [number, number, number]
     {
@@ -627,6 +1685,46 @@ class ProbTable {
                 this.probSum];
     }
 
+    /**
+     * Find the index whose range covers the given
+     * cumulative frequency (as returned by the range
+     * decoder).  Returns -1 for the escape range.
+     */
+    indexOfCumFreq(cumFreq: number): number {
+        assert(cumFreq < this.probSum);
+        return searchAccum(this.probAccum, cumFreq,
+                           this.allowEscape);
+    }
+
+    /**
+     * The cost in bits of coding `idx` with `table`,
+     * including the escape and literal if it is unseen.
+     */
+    static costOf(table: SymbolTable, idx: number): number {
+        const [_, size, total] =
+            table.getOffsetSizeTotal(idx);
+        if (size === 0) {
+            return Math.log2(total) +
+                   Math.log2(table.numEntries);
+        }
+        return Math.log2(total / size);
+    }
+
+    /** The normalized table, for a model bundle. */
+    toBundleJson(): ModelTableJson {
+        return {
+            key: this.key,
+            names: this.names,
+            sizes: this.names.map((_, i) => this.sizeOf(i))
+        };
+    }
+
+    static fromBundleJson(json: ModelTableJson): ProbTable {
+        return new ProbTable(json.key, json.names,
+                             new Uint32Array(json.sizes),
+                             /* normalized = */ true);
+    }
+
     static fromSuffixArrayJson(json: any)
       : Map<string, ProbTable>
     {
@@ -710,9 +1808,12 @@ class ProbTable {
         };
 
         return {
-            idents: _lift('idents', json.idents),
-            props: _lift('props', json.idents),
-            strings: _lift('strings', json.strings)
+            idents: _lift(StringModel.windowKey('ident'),
+                          json.idents),
+            props: _lift(StringModel.windowKey('prop'),
+                         json.idents),
+            strings: _lift(StringModel.windowKey('raw'),
+                           json.strings)
         };
     }
 }
@@ -0,0 +1,744 @@
+
+import * as assert from 'assert';
+import * as S from 'binast-schema';
+
+import * as TS from '../typed_schema';
+import * as logger from '../logger';
+import {FileStore, SOURCE_FILE_PATTERN} from '../file_store';
+import {READABLE, generateJs} from '../codegen';
+import {RangeCoder} from '../range_coder';
+import {Analysis} from '../analysis';
+import {AdaptiveOptions, Container, SECTION_LAZY,
+        SECTION_MODEL, SECTION_STRINGS, SECTION_TREE}
+    from '../container';
+import {componentsToFloat64} from '../float64';
+import {LazySection, decodeLazySection}
+    from '../lazy_section';
+import {StringGroups, decodeStringSection}
+    from '../string_section';
+import {CodingTables, EntropyModel, NumberModel,
+        ProbTable, StringModel, StringRefModel,
+        VarUintModel, packfilePath}
+    from './entropy_code';
+import {PrettyPrintHandler} from './pretty_printer';
+
+/**
+ * EntropyDecodeAnalysis reads back the `.TSC` containers
+ * written by a prior `entropy-code` run and dumps the
+ * decoded tree in pretty-printed form, and as JS source
+ * re-emitted from it.  The model is taken from the
+ * container if embedded, otherwise from the model bundle
+ * given with `--entropy-model`, and otherwise it is
+ * loaded from the result dir tables the header names.
+ */
+export class EntropyDecodeAnalysis
+  extends Analysis
+{
+    readonly models: Map<string, EntropyModel>;
+    readonly bundleModel: EntropyModel|null;
+
+    constructor(schema: S.TreeSchema,
+                scriptStore: FileStore,
+                resultStore: FileStore,
+                opts: object)
+    {
+        super(schema, scriptStore, resultStore, opts);
+        this.models = new Map();
+
+        const modelPath = opts['entropy-model'];
+        this.bundleModel = modelPath
+            ? EntropyModel.readBundle(schema, modelPath)
+            : null;
+    }
+
+    get name(): string {
+        return 'entropy-decode';
+    }
+
+    analyzeAst(subpath: string, script: TS.Program) {
+        const packpath = packfilePath(subpath);
+        if (! this.resultStore.hasFile(packpath)) {
+            // The encoder skips small files.
+            return;
+        }
+
+        const bytes = this.resultStore.readBytes(packpath);
+        const container = Container.decode(bytes);
+        if (container.header.schema !==
+            this.schema.fingerprint)
+        {
+            throw new Error(`Schema mismatch in ${packpath}`);
+        }
+
+        const decoder = EntropyDecoder.forContainer(
+            this.schema, this.findModel(container),
+            container);
+        const decoded = decoder.decodeScript(
+                                    container.header.root);
+
+        logger.log(`DECODED ${bytes.length} bytes -` +
+                   ` ${subpath}`);
+        logger.log(`    ${decoder.symsDecoded} symbols`);
+
+        const datapath = this.dataPath(subpath);
+        this.resultStore.writeSinkString(datapath, ss => {
+            const visitor = S.Visitor.make({
+                schema: this.schema,
+                root: decoded,
+                handler: new PrettyPrintHandler(ss)
+            });
+            visitor.visit();
+        });
+
+        // And as readable JS, next to the tree dump.
+        const jspath = this.dataPath(subpath.replace(
+            SOURCE_FILE_PATTERN, ext => `.decoded${ext}`));
+        this.resultStore.writeString(jspath,
+                                generateJs(decoded, READABLE));
+    }
+
+    private findModel(container: Container)
+      : EntropyModel
+    {
+        const {model} = container.header;
+        if (container.hasSection(SECTION_MODEL)) {
+            return EntropyModel.decodeSection(this.schema,
+                container.getSection(SECTION_MODEL));
+        }
+        if (this.bundleModel) {
+            return this.bundleModel;
+        }
+
+        // Referenced models are shared by most files, so
+        // only load each one once.
+        const key = JSON.stringify(model);
+        if (! this.models.has(key)) {
+            this.models.set(key,
+                EntropyModel.readFrom(this.schema,
+                                      this.resultStore,
+                                      model));
+        }
+        return this.models.get(key);
+    }
+}
+
+/**
+ * A TreeLocation built up incrementally while decoding.
+ * The shape and value of the top entry are not known
+ * until after its type has been decoded, so they can be
+ * filled in after the push.
+ */
+class DecodeCursor implements S.TreeLocation {
+    readonly path: S.Path;
+
+    constructor() {
+        this.path = new S.Path();
+    }
+
+    /** A cursor at the same location. */
+    copy(): DecodeCursor {
+        const cursor = new DecodeCursor();
+        const {keys, shapes, bounds, values} = this.path;
+        for (let i = 0; i < this.path.length; i++) {
+            cursor.path.push(keys[i], shapes[i], bounds[i],
+                             values[i]);
+        }
+        return cursor;
+    }
+
+    push(key: S.PathKey, bound: S.PathBound) {
+        this.path.push(key, null, bound, null);
+    }
+
+    pop() {
+        this.path.pop(this.value);
+    }
+
+    setShape(shape: S.PathShape) {
+        this.path.shapes[this.path.length - 1] = shape;
+    }
+    setValue(value: S.Value) {
+        this.path.values[this.path.length - 1] = value;
+    }
+
+    getKey(index: number): S.PathKey {
+        assert(index >= 0 && index < this.path.length);
+        return this.path.keys[index];
+    }
+    getShape(index: number): S.PathShape {
+        assert(index >= 0 && index < this.path.length);
+        return this.path.shapes[index];
+    }
+    getBound(index: number): S.PathBound {
+        assert(index >= 0 && index < this.path.length);
+        return this.path.bounds[index];
+    }
+    getValue(index: number): S.Value {
+        assert(index >= 0 && index < this.path.length);
+        return this.path.values[index];
+    }
+
+    get key(): S.PathKey {
+        return this.getKey(this.path.length - 1);
+    }
+    get shape(): S.PathShape {
+        return this.getShape(this.path.length - 1);
+    }
+    get bound(): S.PathBound {
+        return this.getBound(this.path.length - 1);
+    }
+    get value(): S.Value {
+        return this.getValue(this.path.length - 1);
+    }
+
+    ancestors(): S.PathIterator {
+        return new S.PathIterator(this.path);
+    }
+}
+
+/**
+ * The inverse of `EntropyCodeHandler`.  Walks the
+ * reflected schema in the same order as `S.Visitor`,
+ * decoding each symbol with the same probability
+ * tables and string models that encoded it, and
+ * rebuilds the typed tree.
+ *
+ * Lazy fields are decoded by a separate decoder reading
+ * only their lazy section, which starts from the same
+ * fresh state as the encoder did.
+ */
+export class EntropyDecoder {
+    readonly schema: S.TreeSchema;
+    readonly model: EntropyModel;
+    readonly adaptive: AdaptiveOptions|null;
+    readonly tables: CodingTables;
+    readonly identModel: StringModel;
+    readonly propModel: StringModel;
+    readonly rawModel: StringModel;
+    readonly globalStrings: Array<string>;
+    readonly stringRefModel: StringRefModel;
+    readonly numberModel: NumberModel;
+    readonly missModel: VarUintModel;
+    readonly strings: StringGroups;
+    readonly lazySections: ReadonlyArray<LazySection>;
+    readonly cursor: DecodeCursor;
+    readonly cachedTypeSets: Map<S.FieldType, S.TypeSet>;
+    readonly rangeCoder: any;
+    readonly suffixLength: number;
+    symsDecoded: number;
+
+    // Number of string table entries referenced so far,
+    // by kind.
+    readonly numNewStrings: Map<string, number>;
+
+    // Number of the next lazy section in this stream.
+    nextLazySection: number;
+
+    constructor(schema: S.TreeSchema,
+                model: EntropyModel,
+                bytes: Uint8Array,
+                strings: StringGroups,
+                adaptive: AdaptiveOptions|null,
+                lazySections: ReadonlyArray<LazySection>,
+                cursor: DecodeCursor = new DecodeCursor())
+    {
+        this.schema = schema;
+        this.model = model;
+        this.adaptive = adaptive;
+        this.tables = new CodingTables(adaptive);
+        this.suffixLength = model.suffixLength;
+
+        this.identModel = model.identModel.withFreshCache();
+        this.propModel = model.propModel.withFreshCache();
+        this.rawModel = model.rawModel.withFreshCache();
+
+        this.globalStrings = new Array();
+        model.globalStrings.forEach((idx, str) => {
+            this.globalStrings[idx] = str;
+        });
+        this.stringRefModel = model.stringRefModel;
+        this.numberModel = model.numberModel;
+        this.missModel = model.missModel;
+        this.strings = strings;
+        this.numNewStrings = new Map();
+        strings.forEach((_, kind) => {
+            this.numNewStrings.set(kind, 0);
+        });
+        this.lazySections = lazySections;
+        this.nextLazySection = 0;
+
+        this.cursor = cursor;
+        this.cachedTypeSets = new Map();
+        this.symsDecoded = 0;
+
+        let offset: number = 0;
+        const stream = {
+            readByte() {
+                // Bytes past the end of the data are
+                // consumed by the final normalization.
+                return (offset < bytes.length)
+                            ? bytes[offset++]
+                            : 0;
+            }
+        };
+        this.rangeCoder = new RangeCoder(stream);
+        this.rangeCoder.decodeStart();
+    }
+
+    /**
+     * Make a decoder for the tree in `container`,
+     * refusing models other than the one it was coded
+     * with.
+     */
+    static forContainer(schema: S.TreeSchema,
+                        model: EntropyModel,
+                        container: Container)
+      : EntropyDecoder
+    {
+        const {header} = container;
+        if (header.schema !== schema.fingerprint) {
+            throw new Error('Schema mismatch.');
+        }
+        if (model.id !== header.modelId) {
+            throw new Error('Model mismatch: file was' +
+                ` coded with ${header.modelId},` +
+                ` not ${model.id}.`);
+        }
+        const strings = decodeStringSection(
+            container.getSection(SECTION_STRINGS));
+        const lazySections =
+            container.hasSection(SECTION_LAZY)
+                ? decodeLazySection(
+                    container.getSection(SECTION_LAZY))
+                : [];
+        return new EntropyDecoder(schema, model,
+            container.getSection(SECTION_TREE), strings,
+            header.adaptive || null, lazySections);
+    }
+
+    /**
+     * Decode the tree, whose root is the iface named
+     * `root` (see `ContainerHeader.root`).
+     */
+    decodeScript(root: string): TS.Program {
+        const iface = rootIface(root);
+        const rootTy = iface.intoFieldType();
+        const typeSet = this.getTypeSetFor(rootTy);
+        assert(typeSet.tys.length === 1);
+
+        // The root is never encoded, it is implied.
+        this.cursor.push('$Root', rootTy);
+        this.cursor.setShape(
+            new S.ResolvedType(typeSet, rootTy, 0));
+        const script = this.decodeIface(iface);
+        this.cursor.pop();
+
+        this.rangeCoder.decodeFinish();
+        assert(this.nextLazySection ===
+                    this.lazySections.length,
+               'Unused lazy sections.');
+        assert((script instanceof TS.Script) ||
+               (script instanceof TS.Module));
+        return script as TS.Program;
+    }
+
+    /**
+     * Decode the lazy field at `key` from its own lazy
+     * section, and step over the string table entries
+     * and lazy sections it takes up.
+     */
+    private decodeLazyItem(key: S.PathKey,
+                           bound: S.PathBound)
+      : S.Value
+    {
+        const index = this.nextLazySection;
+        const section = this.lazySections[index];
+        assert(section, `Missing lazy section ${index}.`);
+        const {stringStarts, stringCounts} = section;
+
+        const decoder = new EntropyDecoder(this.schema,
+            this.model, section.bytes, this.strings,
+            this.adaptive, this.lazySections,
+            this.cursor.copy());
+        const value = decoder.decodeLazySection(index,
+                                                key, bound);
+        this.symsDecoded += decoder.symsDecoded;
+
+        this.nextLazySection = index + 1 + section.numNested;
+        this.numNewStrings.forEach((num, kind) => {
+            assert(num === stringStarts.get(kind),
+                   `Bad string start for lazy section` +
+                   ` ${index}.`);
+            this.numNewStrings.set(kind,
+                num + stringCounts.get(kind));
+        });
+        return value;
+    }
+
+    private decodeLazySection(index: number,
+                              key: S.PathKey,
+                              bound: S.PathBound)
+      : S.Value
+    {
+        const section = this.lazySections[index];
+        const {stringStarts, stringCounts} = section;
+        this.nextLazySection = index + 1;
+        stringStarts.forEach((start, kind) => {
+            this.numNewStrings.set(kind, start);
+        });
+
+        const value = this.decodeItem(key, bound);
+        this.rangeCoder.decodeFinish();
+
+        assert(this.nextLazySection ===
+                    index + 1 + section.numNested,
+               `Unused sections in lazy section ${index}.`);
+        this.numNewStrings.forEach((num, kind) => {
+            assert(num === stringStarts.get(kind) +
+                            stringCounts.get(kind),
+                   `Bad string count for lazy section` +
+                   ` ${index}.`);
+        });
+        return value;
+    }
+
+    private decodeItem(key: S.PathKey, bound: S.PathBound)
+      : S.Value
+    {
+        this.cursor.push(key, bound);
+
+        const suffixes = this.matchSuffixes();
+        const typeSet = this.getTypeSetFor(bound);
+        const index = this.decodeType(suffixes, typeSet);
+        const ty = typeSet.tys[index];
+        this.cursor.setShape(
+            new S.ResolvedType(typeSet, ty, index));
+
+        const value = this.decodeValue(suffixes, ty);
+        this.cursor.setValue(value);
+        this.cursor.pop();
+        return value;
+    }
+
+    private matchSuffixes(): Array<S.PathSuffix> {
+        // Mirror the encoder: longest path suffix to
+        // shortest.
+        const suffixes = new Array<S.PathSuffix>();
+        for (let i = this.suffixLength; i >= 1; i--) {
+            const suffix = S.PathSuffix.forLocation(
+                                this.schema, this.cursor, i);
+            if (suffix !== null) {
+                suffixes.push(suffix);
+            }
+        }
+        if (suffixes.length === 0) {
+            throw new Error('No path suffix for non-root.');
+        }
+        return suffixes;
+    }
+
+    private decodeType(suffixes: Array<S.PathSuffix>,
+                       typeSet: S.TypeSet)
+      : number
+    {
+        // Singleton typesets are not encoded.
+        if (typeSet.tys.length == 1) {
+            return 0;
+        }
+
+        const probTable =
+            this.model.lookupTable(suffixes, 'type');
+        const index = this.decodeSymbol(probTable,
+                                        typeSet.tys.length);
+        assert(index < typeSet.tys.length);
+        return index;
+    }
+
+    private decodeValue(suffixes: Array<S.PathSuffix>,
+                        ty: S.TerminalFieldType)
+      : S.Value
+    {
+        if (ty instanceof S.FieldTypeIface) {
+            const decl = this.schema.getDecl(ty.name);
+            assert(decl instanceof S.Iface);
+            return this.decodeIface(decl as S.Iface);
+        }
+
+        if (ty instanceof S.FieldTypeIdent) {
+            if (ty.tag === 'ident') {
+                return S.Identifier.make(
+                    this.decodeStringRef(this.identModel));
+            } else if (ty.tag === 'prop') {
+                return S.Identifier.make(
+                    this.decodeStringRef(this.propModel));
+            }
+            throw new Error(`Unknon ident tag ${ty.tag}`);
+        }
+
+        switch (ty) {
+          case S.FieldTypePrimitive.Null:
+            return null;
+          case S.FieldTypePrimitive.Str:
+            return this.decodeStringRef(this.rawModel);
+          case S.FieldTypePrimitive.F64:
+            return this.decodeF64();
+        }
+
+        const field = S.locationField(this.schema,
+                                      this.cursor);
+        const [tag, alphabetSize] = this.valueTag(ty, field);
+        const probTable =
+            this.model.lookupTable(suffixes, tag);
+        const index = this.decodeSymbol(probTable,
+                                        alphabetSize);
+
+        switch (ty) {
+          case S.FieldTypePrimitive.Bool:
+            return index === 1;
+          case S.FieldTypePrimitive.Uint:
+            return (index < 8)
+                ? index
+                : 8 + this.decodeVarUint(this.missModel);
+          case S.FieldTypePrimitive.Int:
+            if (index < 8) {
+                return index - 1;
+            }
+            return this.rangeCoder.decodeBit()
+                ? (-2 - this.decodeVarUint(this.missModel))
+                : (7 + this.decodeVarUint(this.missModel));
+        }
+
+        if (ty instanceof S.FieldTypeEnum) {
+            const enm = this.schema.getDecl(ty.name);
+            assert(enm instanceof S.Enum);
+            const variant = (enm as S.Enum).variants[index];
+            assert(variant);
+            return variant.name.fullName;
+        }
+
+        assert(ty instanceof S.FieldTypeArray);
+        let length: number;
+        if (tag === 'nonEmptyArrayLength') {
+            length = (index < 16)
+                ? index + 1
+                : 17 + this.decodeVarUint(this.missModel);
+        } else {
+            length = (index < 16)
+                ? index
+                : 16 + this.decodeVarUint(this.missModel);
+        }
+        return this.decodeArray(ty as S.FieldTypeArray,
+                                length);
+    }
+
+    /**
+     * The tag under which `PathSuffix.valueTagAndIndex`
+     * files values of the given type, and the size of
+     * the alphabet it uses for them.
+     */
+    private valueTag(ty: S.TerminalFieldType,
+                     field: S.IfaceField|null)
+      : [string, number]
+    {
+        switch (ty) {
+          case S.FieldTypePrimitive.Bool: return ['bool', 2];
+          case S.FieldTypePrimitive.Uint: return ['uint', 9];
+          case S.FieldTypePrimitive.Int: return ['int', 9];
+        }
+        if (ty instanceof S.FieldTypeArray) {
+            return ((field !== null) && field.isNonEmpty)
+                ? ['nonEmptyArrayLength', 17]
+                : ['arrayLength', 17];
+        }
+        if (ty instanceof S.FieldTypeEnum) {
+            const enm = this.schema.getDecl(ty.name);
+            assert(enm instanceof S.Enum);
+            return [ty.name.name,
+                    (enm as S.Enum).variants.length];
+        }
+        throw new Error(`No value tag for type ` +
+                        ty.prettyString());
+    }
+
+    private decodeIface(iface: S.Iface): S.Instance {
+        const data = {};
+        for (let field of iface.fields) {
+            // Type indicators are not coded (see
+            // `S.IfaceField`).
+            if (field.isTypeIndicator) {
+                continue;
+            }
+            data[field.name] = field.isLazy
+                ? this.decodeLazyItem(field.name, field.ty)
+                : this.decodeItem(field.name, field.ty);
+        }
+        const nodeClass = TS[iface.name.name];
+        assert(nodeClass && nodeClass.make,
+               `No typed class for ${iface.name.name}`);
+        return nodeClass.make(data) as S.Instance;
+    }
+
+    private decodeArray(ty: S.FieldTypeArray, length: number)
+      : Array<S.Value>
+    {
+        // Path suffixes of array elements look at the
+        // length of the enclosing array, so it must be
+        // on the path before the elements are decoded.
+        const arr = new Array<S.Value>(length);
+        this.cursor.setValue(arr);
+        for (let i = 0; i < length; i++) {
+            arr[i] = this.decodeItem(i, ty.inner);
+        }
+        return arr;
+    }
+
+    private decodeStringRef(model: StringModel): string {
+        const {cache, table} = model;
+
+        const idx = this.decodeWith(table);
+        let str: string;
+        if (idx < table.numEntries - 1) {
+            str = cache.get(idx);
+        } else {
+            str = this.decodeRawStringRef(model.kind);
+        }
+
+        // Keep the cache in lockstep with the encoder.
+        const lookup = cache.lookup(str);
+        assert(lookup === ((idx < table.numEntries - 1)
+                                ? idx : -1));
+        return str;
+    }
+
+    private decodeRawStringRef(kind: string): string {
+        const {stringRefModel} = this;
+        const refClass = this.decodeWith(
+                    stringRefModel.classTable(kind));
+        const strings = this.strings.get(kind);
+        const numNew = this.numNewStrings.get(kind);
+        assert(strings, `Unknown string kind ${kind}`);
+
+        switch (refClass) {
+          case StringRefModel.REF_GLOBAL: {
+            const idx = this.decodeVarUint(
+                            stringRefModel.globalIndex);
+            assert(idx < this.globalStrings.length,
+                   `Global string ${idx} out of range.`);
+            return this.globalStrings[idx];
+          }
+          case StringRefModel.REF_NEW: {
+            const idx = numNew;
+            assert(idx < strings.length,
+                   `String index ${idx} out of range.`);
+            this.numNewStrings.set(kind, numNew + 1);
+            return strings[idx];
+          }
+        }
+
+        assert(refClass === StringRefModel.REF_OLD);
+        const distance = this.decodeVarUint(
+                            stringRefModel.distance);
+        assert(distance < numNew,
+               `String distance ${distance} out of range.`);
+        return strings[numNew - 1 - distance];
+    }
+
+    /** Inverse of `EntropyCodeHandler.encodeSymbol`. */
+    private decodeSymbol(probTable: ProbTable|null,
+                         alphabetSize: number)
+      : number
+    {
+        if (probTable === null) {
+            return this.decodeLiteral(alphabetSize);
+        }
+        assert(probTable.numEntries === alphabetSize);
+        return this.decodeWith(probTable);
+    }
+
+    private decodeWith(probTable: ProbTable): number {
+        const table = this.tables.get(probTable);
+        const total = table.probSum;
+        const cumFreq = this.rangeCoder.decodeCulFreq(total);
+        let index = table.indexOfCumFreq(cumFreq);
+        if (index < 0) {
+            // An escape, followed by the literal index.
+            this.rangeCoder.decodeUpdate(1,
+                table.escapeOffset, total);
+            index = this.decodeLiteral(table.numEntries);
+        } else {
+            const [offset, size, _] =
+                table.getOffsetSizeTotal(index);
+            this.rangeCoder.decodeUpdate(size, offset,
+                                         total);
+            this.symsDecoded++;
+        }
+        this.tables.update(probTable, index);
+        return index;
+    }
+
+    private decodeLiteral(alphabetSize: number): number {
+        const index =
+            this.rangeCoder.decodeCulFreq(alphabetSize);
+        assert(index < alphabetSize);
+        this.rangeCoder.decodeUpdate(1, index, alphabetSize);
+        this.symsDecoded++;
+        return index;
+    }
+
+    private decodeF64(): number {
+        const {numberModel} = this;
+        const kind = this.decodeWith(numberModel.kinds);
+        switch (kind) {
+          case NumberModel.KIND_COMMON:
+            return numberModel.commonValue(
+                this.decodeWith(numberModel.common));
+          case NumberModel.KIND_SMALL_INT:
+            return this.decodeVarUint(
+                            numberModel.smallInt);
+        }
+
+        assert(kind === NumberModel.KIND_DOUBLE);
+        const negative =
+            this.decodeWith(numberModel.sign) === 1;
+        const exponent =
+            this.decodeWith(numberModel.exponent);
+        const mantissa = new Array<number>(
+            this.decodeWith(numberModel.mantissaBytes));
+        for (let i = 0; i < mantissa.length; i++) {
+            mantissa[i] = this.rangeCoder.decodeByte();
+        }
+        return componentsToFloat64(
+                    {negative, exponent, mantissa});
+    }
+
+    private decodeVarUint(model: VarUintModel): number {
+        const len = this.decodeWith(model.lengths) + 1;
+        let value: number = 0;
+        for (let pos = 0; pos < len; pos++) {
+            const g = this.decodeWith(
+                            model.groupTable(len, pos));
+            value = (value << 7) | g;
+        }
+        return value;
+    }
+
+    private getTypeSetFor(ty: S.FieldType): S.TypeSet {
+        if (!this.cachedTypeSets.has(ty)) {
+            const tySet = ty.flatten(this.schema);
+            this.cachedTypeSets.set(ty, tySet);
+        }
+        return this.cachedTypeSets.get(ty);
+    }
+}
+
+/** The iface of the root named in a container header. */
+function rootIface(name: string): S.Iface {
+    switch (name) {
+      case 'Script':
+        return TS.ReflectedSchema.Script;
+      case 'Module':
+        return TS.ReflectedSchema.Module;
+      default:
+        throw new Error(`Unknown root iface ${name}.`);
+    }
+}
@@ -6,7 +6,8 @@ import * as TS from '../typed_schema';
 
 import {Analysis} from '../analysis';
 import {StringSink} from '../data_sink';
-import {FileStore} from '../file_store';
+import {FileStore, SOURCE_FILE_PATTERN} from '../file_store';
+import {isTemplateStringLocation} from './string_window';
 
 function jsonStr(s) {
     JSON.stringify(s);
@@ -34,13 +35,14 @@ export class GlobalStringsAnalysis
         let results = this.globalStrings.summarizeCounts();
 
         const jsonpath = this.dataPath(`ALL.json`);
-        this.resultStore.writeJSON(jsonpath, results);
+        this.resultStore.writeResultJSON(jsonpath,
+                                         this.schema, results);
 
         const txtpath = this.dataPath(`ALL.txt`);
         this.generateSummaryReport(txtpath, results);
     }
 
-    analyzeAst(subpath: string, script: TS.Script) {
+    analyzeAst(subpath: string, script: TS.Program) {
         const handler =
             new GlobalStringsHandler(this.globalStrings);
         
@@ -52,16 +54,18 @@ export class GlobalStringsAnalysis
         visitor.visit();
         const results = handler.counter.summarizeCounts();
 
-        assert(subpath.match(/\.js$/));
+        assert(subpath.match(SOURCE_FILE_PATTERN));
 
         const genpath = (rep:string) => {
             return this.dataPath(
-                        subpath.replace(/\.js$/, rep));
+                        subpath.replace(SOURCE_FILE_PATTERN,
+                                        rep));
         };
         const jsonpath = genpath('.json');
         const txtpath = genpath('.txt');
 
-        this.resultStore.writeJSON(jsonpath, results);
+        this.resultStore.writeResultJSON(jsonpath,
+                                         this.schema, results);
         this.generateSummaryReport(txtpath, results);
     }
 
@@ -73,10 +77,8 @@ export class GlobalStringsAnalysis
                 const {str, idx,
                        identCount,
                        propCount,
-                       rawCount} = entry;
-
-                const totalCount =
-                    identCount + propCount + rawCount;
+                       rawCount,
+                       templateCount} = entry;
 
                 const strRepr = jsonStr(str);
                 ss.write(
@@ -84,7 +86,8 @@ export class GlobalStringsAnalysis
                     ` length=${str.length}` +
                     ` identCount=${identCount}` +
                     ` propCount=${propCount}` +
-                    ` rawCount=${rawCount}\n` +
+                    ` rawCount=${rawCount}` +
+                    ` templateCount=${templateCount}\n` +
                     ` >> ${strRepr}\n\n`);
             }
         });
@@ -118,6 +121,12 @@ export class GlobalStringsHandler
                 throw new Error(`Unrecognized prop name ` +
                                             name);
             }
+        } else if (shape.ty === S.FieldTypePrimitive.Str &&
+                   isTemplateStringLocation(loc))
+        {
+            assert(typeof(value) === 'string');
+            this.counter.recordTemplate(value as string);
+            this.globalCounter.recordTemplate(value as string);
         } else if (shape.ty === S.FieldTypePrimitive.Str) {
             assert(typeof(value) === 'string');
             this.counter.recordRaw(value as string);
@@ -135,18 +144,21 @@ export type StringCountResult = {
     identCount: number,
     propCount: number,
     rawCount: number,
+    templateCount: number,
     totalCount: number
 };
 
 const STRING_TAG_IDENT: number = 0x01;
 const STRING_TAG_PROP: number = 0x02;
 const STRING_TAG_RAW: number = 0x04;
+const STRING_TAG_TEMPLATE: number = 0x08;
 
 export class StringTable {
     readonly strings: Array<string>;
     readonly stringIdentCounts: Array<number>;
     readonly stringPropCounts: Array<number>;
     readonly stringRawCounts: Array<number>;
+    readonly stringTemplateCounts: Array<number>;
     readonly stringIndices: Map<string, number>;
 
     constructor() {
@@ -154,6 +166,7 @@ export class StringTable {
         this.stringIdentCounts = new Array();
         this.stringPropCounts = new Array();
         this.stringRawCounts = new Array();
+        this.stringTemplateCounts = new Array();
         this.stringIndices = new Map();
     }
 
@@ -167,6 +180,7 @@ export class StringTable {
         this.stringIdentCounts.push(0);
         this.stringPropCounts.push(0);
         this.stringRawCounts.push(0);
+        this.stringTemplateCounts.push(0);
         this.stringIndices.set(str, newIdx);
         return newIdx;
     }
@@ -183,6 +197,10 @@ export class StringTable {
         const idx = this.recordString(str);
         ++this.stringRawCounts[idx];
     }
+    recordTemplate(str: string) {
+        const idx = this.recordString(str);
+        ++this.stringTemplateCounts[idx];
+    }
 
     summarizeEntry(str: string): StringCountResult
     {
@@ -191,14 +209,16 @@ export class StringTable {
         const identCount = this.stringIdentCounts[idx];
         const propCount = this.stringPropCounts[idx];
         const rawCount = this.stringRawCounts[idx];
+        const templateCount = this.stringTemplateCounts[idx];
 
         const totalCount =
-            identCount + propCount + rawCount;
+            identCount + propCount + rawCount + templateCount;
 
         return {str, idx,
                 identCount,
                 propCount,
                 rawCount,
+                templateCount,
                 totalCount};
     }
 
@@ -0,0 +1,50 @@
+
+import * as S from 'binast-schema';
+
+import * as TS from '../typed_schema';
+import {Analysis} from '../analysis';
+import {FileStore} from '../file_store';
+import {DEFAULT_MODEL_DESCRIPTOR, EntropyModel}
+    from './entropy_code';
+
+/**
+ * ModelBundleAnalysis exports the model the entropy coder
+ * builds from the result dir as a single model bundle
+ * (see `model_bundle.ts`), which can then be passed to
+ * the coder and decoder with `--entropy-model`.
+ *
+ * The model only depends on earlier analysis results, so
+ * no scripts are visited.
+ */
+export class ModelBundleAnalysis
+  extends Analysis
+{
+    constructor(schema: S.TreeSchema,
+                scriptStore: FileStore,
+                resultStore: FileStore,
+                opts: object)
+    {
+        super(schema, scriptStore, resultStore, opts);
+    }
+
+    get name(): string {
+        return 'model-bundle';
+    }
+
+    analyzeFull() {
+        this.log(`Running ${this.name} analysis.`);
+
+        const model = EntropyModel.readFrom(this.schema,
+                                this.resultStore,
+                                DEFAULT_MODEL_DESCRIPTOR);
+        const bundle = model.toBundle(this.schema);
+
+        const path = this.dataPath('model.json');
+        this.resultStore.writeString(path,
+                                     JSON.stringify(bundle));
+        this.log(`Wrote model ${model.id} to ${path}`);
+    }
+
+    analyzeAst(subpath: string, script: TS.Program) {
+    }
+}
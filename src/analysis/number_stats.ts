@@ -0,0 +1,197 @@
+
+import * as assert from 'assert';
+import * as S from 'binast-schema';
+
+import * as TS from '../typed_schema';
+import {Analysis} from '../analysis';
+import {FileStore} from '../file_store';
+import {float64ToComponents, EXPONENT_VALUES,
+        MANTISSA_BYTES}
+    from '../float64';
+import {VarUintCounter, VARUINT_LIMIT, freqsJson}
+    from './varuint_stats';
+
+/**
+ * NumberStatsAnalysis collects the statistics used by
+ * the entropy coder to model float64 values.
+ *
+ * Every f64 value is coded as one of three kinds:
+ *  - 'common': one of the most frequent values in the
+ *    corpus, coded as an index into a table of them.
+ *  - 'smallInt': a non-negative integer, coded as a
+ *    modeled varuint (see `VarUintCounter`).
+ *  - 'double': anything else, coded by its IEEE-754
+ *    components (sign, biased exponent, and mantissa).
+ *
+ * The results are written in the same format as the
+ * path-suffix tables, keyed by `f64#<table>`.
+ */
+
+export const NUMBER_KINDS: ReadonlyArray<string> =
+    Object.freeze(['common', 'smallInt', 'double']);
+
+export const COMMON_NUMBERS_LIMIT: number = 64;
+
+// Small ints must fit in the coder's varuints.
+export const SMALL_INT_LIMIT: number = VARUINT_LIMIT;
+
+export function isSmallInt(value: number): boolean {
+    return Number.isInteger(value) &&
+           (value >= 0) && (value < SMALL_INT_LIMIT) &&
+           !Object.is(value, -0);
+}
+
+/**
+ * Whether a value can be stored in the common table.
+ * Non-finite values and negative zero do not survive
+ * a round trip through JSON.
+ */
+export function isCommonCandidate(value: number)
+  : boolean
+{
+    return Number.isFinite(value) && !Object.is(value, -0);
+}
+
+export class NumberStatsAnalysis
+  extends Analysis
+{
+    readonly valueCounts: Map<number, number>;
+    readonly otherValues: Array<number>;
+
+    constructor(schema: S.TreeSchema,
+                scriptStore: FileStore,
+                resultStore: FileStore,
+                opts: object)
+    {
+        super(schema, scriptStore, resultStore, opts);
+        this.valueCounts = new Map();
+        this.otherValues = [];
+    }
+
+    get name(): string {
+        return 'number-stats';
+    }
+
+    analyzeAst(subpath: string, script: TS.Program) {
+        const handler = new NumberStatsHandler(this);
+        const visitor = S.Visitor.make({
+            schema: this.schema,
+            root: script,
+            handler: handler
+        });
+        visitor.visit();
+    }
+
+    recordValue(value: number) {
+        if (isCommonCandidate(value)) {
+            this.valueCounts.set(value,
+                (this.valueCounts.get(value) || 0) + 1);
+        } else {
+            this.otherValues.push(value);
+        }
+    }
+
+    endAnalysis() {
+        const sorted =
+            Array.from(this.valueCounts.entries()).sort(
+                (a, b) => ((b[1] - a[1]) || (a[0] - b[0])));
+        const common = sorted.slice(0, COMMON_NUMBERS_LIMIT);
+
+        const kinds = new Array<number>(NUMBER_KINDS.length)
+                            .fill(0);
+        const signs = [0, 0];
+        const exponents = new Array<number>(EXPONENT_VALUES)
+                            .fill(0);
+        const mantissaBytes =
+            new Array<number>(MANTISSA_BYTES + 1).fill(0);
+        const smallInts = new VarUintCounter('smallInt');
+
+        const recordDouble = (value: number,
+                              count: number) =>
+        {
+            const {negative, exponent, mantissa} =
+                float64ToComponents(value);
+            signs[negative ? 1 : 0] += count;
+            exponents[exponent] += count;
+            mantissaBytes[mantissa.length] += count;
+        };
+
+        for (let [value, count] of common) {
+            kinds[0] += count;
+        }
+        for (let [value, count] of
+                    sorted.slice(COMMON_NUMBERS_LIMIT))
+        {
+            if (isSmallInt(value)) {
+                kinds[1] += count;
+                smallInts.record(value, count);
+            } else {
+                kinds[2] += count;
+                recordDouble(value, count);
+            }
+        }
+        for (let value of this.otherValues) {
+            kinds[2] += 1;
+            recordDouble(value, 1);
+        }
+
+        // The common table only holds values that have
+        // been seen.  Every other table gets one extra
+        // hit per entry so that values never seen in the
+        // corpus remain codable.
+        const smooth = (counts: Array<number>) => {
+            return counts.map(c => c + 1);
+        };
+        const results = [
+            freqsJson('f64#kind', NUMBER_KINDS,
+                      smooth(kinds)),
+            freqsJson('f64#common', common.map(c => c[0]),
+                      common.map(c => c[1])),
+            freqsJson('f64#sign', ['+', '-'],
+                      smooth(signs)),
+            freqsJson('f64#exponent',
+                      exponents.map((_, i) => i),
+                      smooth(exponents)),
+            freqsJson('f64#mantissaBytes',
+                      mantissaBytes.map((_, i) => i),
+                      smooth(mantissaBytes)),
+            ... smallInts.summarizeFreqs()
+        ];
+
+        const jsonpath = this.dataPath('ALL.json');
+        this.resultStore.writeResultJSON(jsonpath,
+                                         this.schema, results);
+
+        const txtpath = this.dataPath('ALL.txt');
+        this.resultStore.writeSinkString(txtpath, ss => {
+            NUMBER_KINDS.forEach((kind, i) => {
+                ss.write(`KIND ${kind} count=${kinds[i]}\n`);
+            });
+            ss.write('\n');
+            for (let [value, count] of common) {
+                ss.write(`COMMON ${value} count=${count}\n`);
+            }
+        });
+    }
+}
+
+class NumberStatsHandler
+  implements S.VisitHandler
+{
+    readonly analysis: NumberStatsAnalysis;
+
+    constructor(analysis: NumberStatsAnalysis) {
+        this.analysis = analysis;
+    }
+
+    begin(schema: S.TreeSchema, loc: S.TreeLocation) {
+        const {shape, value} = loc;
+        if (shape.ty === S.FieldTypePrimitive.F64) {
+            assert(typeof(value) === 'number');
+            this.analysis.recordValue(value as number);
+        }
+    }
+
+    end(schema: S.TreeSchema, loc: S.TreeLocation) {
+    }
+}
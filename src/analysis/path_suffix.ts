@@ -5,7 +5,7 @@ import * as S from 'binast-schema';
 import * as TS from '../typed_schema';
 import * as logger from '../logger';
 import {Analysis} from '../analysis';
-import {FileStore} from '../file_store';
+import {FileStore, SOURCE_FILE_PATTERN} from '../file_store';
 
 /**
  * PathSuffixAnalysis analyzes the frequencies
@@ -196,7 +196,8 @@ export class PathSuffixAnalysis
 
         const jsonpath =
             this.dataPath(`${suffixLength}/ALL.json`);
-        this.resultStore.writeJSON(jsonpath, results);
+        this.resultStore.writeResultJSON(jsonpath,
+                                         this.schema, results);
 
         const txtpath =
             this.dataPath(`${suffixLength}/ALL.txt`);
@@ -204,7 +205,7 @@ export class PathSuffixAnalysis
                                 this.totalSymbolsEmitted);
     }
 
-    analyzeAst(subpath: string, script: TS.Script)
+    analyzeAst(subpath: string, script: TS.Program)
     {
         const suffixLength = this.getSuffixLength();
         const handler = new PathSuffixHandler(suffixLength,
@@ -220,17 +221,19 @@ export class PathSuffixAnalysis
         const results = handler.summarizeFreqs(
                                     handler.symbolsEmitted);
 
-        assert(subpath.match(/\.js$/));
+        assert(subpath.match(SOURCE_FILE_PATTERN));
         this.totalSymbolsEmitted += handler.symbolsEmitted;
 
         const genpath = (rep:string) => {
             return this.dataPath(`${suffixLength}/` +
-                        subpath.replace(/\.js$/, rep));
+                        subpath.replace(SOURCE_FILE_PATTERN,
+                                        rep));
         };
         const jsonpath = genpath('.json');
         const txtpath = genpath('.txt');
 
-        this.resultStore.writeJSON(jsonpath, results);
+        this.resultStore.writeResultJSON(jsonpath,
+                                         this.schema, results);
         this.generateSummaryReport(txtpath, results,
                                    handler.symbolsEmitted);
     }
@@ -359,6 +362,7 @@ class PathSuffixHandler
     begin(schema: S.TreeSchema, loc: S.TreeLocation) {
         ++this.symbolsEmitted;
         const {key, shape, bound, value} = loc;
+        const field = S.locationField(schema, loc);
 
         for (let len = 1; len <= this.suffixLength; len++) {
             const suffix = S.PathSuffix.forLocation(
@@ -368,9 +372,9 @@ class PathSuffixHandler
             }
 
             this.updateFreqTables(schema, shape, suffix,
-                value, this.globalFreqMap);
+                value, field, this.globalFreqMap);
             this.updateFreqTables(schema, shape, suffix,
-                value, this.suffixFreqMap);
+                value, field, this.suffixFreqMap);
         }
     }
 
@@ -383,6 +387,7 @@ class PathSuffixHandler
         shape: S.PathShape,
         suffix: S.PathSuffix,
         value: S.Value,
+        field: S.IfaceField|null,
         freqMap: Map<string, FreqTable>)
     {
         const suffixStr = suffix.keyString();
@@ -401,7 +406,7 @@ class PathSuffixHandler
         }
 
         const tagValIdx = suffix.valueTagAndIndex(
-                            schema, shape.ty, value);
+                            schema, shape.ty, value, field);
         if (tagValIdx === null) {
             return;
         }
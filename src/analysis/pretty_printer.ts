@@ -8,6 +8,8 @@ import {Analysis} from '../analysis';
 import {FileStore} from '../file_store';
 import {StringSink, ConsoleStringSink}
     from '../data_sink';
+import {SourceLocations, SourceSpan, formatLocation}
+    from '../source_location';
 
 export class PrettyPrintAnalysis
   extends Analysis
@@ -24,13 +26,16 @@ export class PrettyPrintAnalysis
         return 'pretty-print';
     }
 
-    analyzeAst(subpath: string, script: TS.Script) {
+    analyzeAst(subpath: string, script: TS.Program,
+               locations: SourceLocations|null)
+    {
         const datapath = this.dataPath(subpath);
         this.resultStore.writeSinkString(datapath, ss => {
             const visitor = S.Visitor.make({
                 schema: this.schema,
                 root: script,
-                handler: new PrettyPrintHandler(ss)
+                handler: new PrettyPrintHandler(ss, subpath,
+                                                locations)
             });
             visitor.visit();
         });
@@ -41,10 +46,21 @@ export class PrettyPrintHandler
   implements S.VisitHandler
 {
     readonly sink: StringSink;
+
+    // The script's path and the source spans of its
+    // nodes, to print where located nodes come from.
+    readonly subpath: string;
+    readonly locations: SourceLocations|null;
+
     depth: number;
 
-    constructor(sink: StringSink) {
+    constructor(sink: StringSink,
+                subpath: string = '',
+                locations: SourceLocations|null = null)
+    {
         this.sink = sink;
+        this.subpath = subpath;
+        this.locations = locations;
         this.depth = 0;
     }
 
@@ -58,11 +74,17 @@ export class PrettyPrintHandler
         assert(flattened instanceof S.TypeSet,
                `Bad flattened: '${flattened}'`);
 
-        this.writeTabbedLines(...[
+        const lines = [
             `${key}: ${boundStr} = {`,
-            `    @ ${shapeStr}`,
-            ``,
-        ]);
+            `    @ ${shapeStr}`
+        ];
+        const span = this.spanOf(value);
+        if (span !== null) {
+            lines.push(
+                `    at ${formatLocation(this.subpath, span)}`);
+        }
+        lines.push(``);
+        this.writeTabbedLines(...lines);
         if (valueStr !== null) {
             this.writeTabbedLines(...[
                 `    value = ${valueStr}`
@@ -77,6 +99,16 @@ export class PrettyPrintHandler
         this.writeTabbedLines(`}`);
     }
 
+    private spanOf(value: S.Value): SourceSpan|null {
+        if ((this.locations === null) ||
+            (typeof(value) !== 'object') ||
+            (value === null))
+        {
+            return null;
+        }
+        return this.locations.get(value);
+    }
+
     private writeTabbedLines(...lines: Array<string>) {
         const prefix = '    '.repeat(this.depth);
         this.sink.write(...lines.map(l => {
@@ -0,0 +1,170 @@
+
+import * as assert from 'assert';
+import * as S from 'binast-schema';
+
+import * as TS from '../typed_schema';
+import {Analysis} from '../analysis';
+import {FileStore} from '../file_store';
+import {StringCache} from '../string_cache';
+import {STRING_KINDS} from '../string_section';
+import {DEFAULT_MODEL_DESCRIPTOR, StringRefModel,
+        StringTable}
+    from './entropy_code';
+import {VarUintCounter, freqsJson} from './varuint_stats';
+
+/**
+ * StringRefsAnalysis collects the statistics used by the
+ * entropy coder to code references to strings that miss
+ * in the string caches (see `StringRefModel`).
+ *
+ * It replays the string caches the coder uses, so it
+ * needs the global-strings analysis results, and uses
+ * the same window size as the coder.
+ */
+export class StringRefsAnalysis
+  extends Analysis
+{
+    readonly globalStrings: Map<string, number>;
+    readonly classCounts: Map<string, Array<number>>;
+    readonly globalIndex: VarUintCounter;
+    readonly distance: VarUintCounter;
+
+    constructor(schema: S.TreeSchema,
+                scriptStore: FileStore,
+                resultStore: FileStore,
+                opts: object)
+    {
+        super(schema, scriptStore, resultStore, opts);
+
+        const descriptor = DEFAULT_MODEL_DESCRIPTOR;
+        const globalStringsJson =
+            resultStore.readResultJSON(
+                descriptor.globalStrings, schema);
+        assert(globalStringsJson instanceof Array);
+        this.globalStrings = new Map<string, number>(
+            globalStringsJson
+                .slice(0, descriptor.globalStringsLimit)
+                .map((e, i) => {
+                    assert(typeof(e['str']) == 'string');
+                    return [e['str'], i] as [string, number];
+                }));
+
+        this.classCounts = new Map();
+        for (let kind of STRING_KINDS) {
+            this.classCounts.set(kind,
+                StringRefModel.REF_NAMES.map(_ => 0));
+        }
+        this.globalIndex = new VarUintCounter('global');
+        this.distance = new VarUintCounter('distance');
+    }
+
+    get name(): string {
+        return 'string-refs';
+    }
+
+    analyzeAst(subpath: string, script: TS.Program) {
+        const handler = new StringRefsHandler(this,
+                    DEFAULT_MODEL_DESCRIPTOR.windowSize);
+        const visitor = S.Visitor.make({
+            schema: this.schema,
+            root: script,
+            handler: handler
+        });
+        visitor.visit();
+    }
+
+    recordRef(kind: string, refClass: number, num: number) {
+        this.classCounts.get(kind)[refClass]++;
+        switch (refClass) {
+          case StringRefModel.REF_GLOBAL:
+            this.globalIndex.record(num);
+            break;
+          case StringRefModel.REF_OLD:
+            this.distance.record(num);
+            break;
+        }
+    }
+
+    endAnalysis() {
+        // Every class gets one extra hit so that all
+        // classes remain codable.
+        const results = new Array<object>();
+        this.classCounts.forEach((counts, kind) => {
+            results.push(freqsJson(
+                StringRefModel.classKey(kind),
+                StringRefModel.REF_NAMES,
+                counts.map(c => c + 1)));
+        });
+        results.push(... this.globalIndex.summarizeFreqs());
+        results.push(... this.distance.summarizeFreqs());
+
+        const jsonpath = this.dataPath('ALL.json');
+        this.resultStore.writeResultJSON(jsonpath,
+                                         this.schema, results);
+
+        const txtpath = this.dataPath('ALL.txt');
+        this.resultStore.writeSinkString(txtpath, ss => {
+            this.classCounts.forEach((counts, kind) => {
+                const parts = StringRefModel.REF_NAMES.map(
+                    (name, i) => `${name}=${counts[i]}`);
+                ss.write(`KIND ${kind} ${parts.join(' ')}\n`);
+            });
+            const _lengths = (counter: VarUintCounter) => {
+                const parts = counter.lengths.map(
+                    (count, i) => `${i + 1}=${count}`);
+                ss.write(`LENGTHS ${counter.name}` +
+                         ` ${parts.join(' ')}\n`);
+            };
+            _lengths(this.globalIndex);
+            _lengths(this.distance);
+        });
+    }
+}
+
+class StringRefsHandler
+  implements S.VisitHandler
+{
+    readonly analysis: StringRefsAnalysis;
+    readonly caches: Map<string, StringCache>;
+    readonly stringTables: Map<string, StringTable>;
+
+    constructor(analysis: StringRefsAnalysis,
+                windowSize: number)
+    {
+        this.analysis = analysis;
+        this.caches = new Map();
+        this.stringTables = new Map();
+        for (let kind of STRING_KINDS) {
+            this.caches.set(kind,
+                            new StringCache(windowSize));
+            this.stringTables.set(kind, new StringTable());
+        }
+    }
+
+    begin(schema: S.TreeSchema, loc: S.TreeLocation) {
+        const {shape, value} = loc;
+        if (shape.ty instanceof S.FieldTypeIdent) {
+            assert(value instanceof S.Identifier);
+            this.recordString(shape.ty.tag,
+                              (value as S.Identifier).name);
+        } else if (shape.ty === S.FieldTypePrimitive.Str) {
+            assert(typeof(value) === 'string');
+            this.recordString('raw', value as string);
+        }
+    }
+
+    end(schema: S.TreeSchema, loc: S.TreeLocation) {
+    }
+
+    private recordString(kind: string, str: string) {
+        const cache = this.caches.get(kind);
+        assert(cache, `Unknown string kind ${kind}`);
+        if (cache.lookup(str) >= 0) {
+            return;
+        }
+        const [refClass, num] = StringRefModel.refFor(
+                str, this.analysis.globalStrings,
+                this.stringTables.get(kind));
+        this.analysis.recordRef(kind, refClass, num);
+    }
+}
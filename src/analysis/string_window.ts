@@ -6,12 +6,32 @@ import * as TS from '../typed_schema';
 
 import {Analysis} from '../analysis';
 import {StringSink} from '../data_sink';
-import {FileStore} from '../file_store';
+import {FileStore, SOURCE_FILE_PATTERN} from '../file_store';
 import {StringCache} from '../string_cache';
 
 export const MAX_WINDOW_SIZE: number = 4096;
 export const DEFAULT_WINDOW_SIZE: number = 64;
 
+/**
+ * Whether a visited string is the raw value of a template
+ * element.  Template strings are coded as raw strings,
+ * but are counted apart from string literals as they are
+ * distributed very differently.
+ */
+export function isTemplateStringLocation(
+    loc: S.TreeLocation)
+  : boolean
+{
+    const iter = loc.ancestors();
+    iter.next();
+    if (iter.done) {
+        return false;
+    }
+    const ty = iter.shape.ty;
+    return (ty instanceof S.FieldTypeIface) &&
+           (ty.name.name === 'TemplateElement');
+}
+
 export class StringWindowAnalysis
   extends Analysis
 {
@@ -61,7 +81,8 @@ export class StringWindowAnalysis
 
         const jsonpath =
             this.dataPath(`${windowSize}/ALL.json`);
-        this.resultStore.writeJSON(jsonpath, results);
+        this.resultStore.writeResultJSON(jsonpath,
+                                         this.schema, results);
 
         const txtpath =
             this.dataPath(`${windowSize}/ALL.txt`);
@@ -78,14 +99,14 @@ export class StringWindowAnalysis
         return this.globalCounters.get(windowSize);
     }
 
-    analyzeAst(subpath: string, script: TS.Script) {
+    analyzeAst(subpath: string, script: TS.Program) {
         for (let ws of this.getWindowSizes()) {
             this.analyzeWindowSize(subpath, script, ws);
         }
     }
 
     private analyzeWindowSize(subpath: string,
-                              script: TS.Script,
+                              script: TS.Program,
                               windowSize: number)
     {
         const globalCounters =
@@ -103,16 +124,18 @@ export class StringWindowAnalysis
         visitor.visit();
         const results = handler.counter.summarizeHits();
 
-        assert(subpath.match(/\.js$/));
+        assert(subpath.match(SOURCE_FILE_PATTERN));
 
         const genpath = (rep:string) => {
             return this.dataPath(`${windowSize}/` +
-                        subpath.replace(/\.js$/, rep));
+                        subpath.replace(SOURCE_FILE_PATTERN,
+                                        rep));
         };
         const jsonpath = genpath('.json');
         const txtpath = genpath('.txt');
 
-        this.resultStore.writeJSON(jsonpath, results);
+        this.resultStore.writeResultJSON(jsonpath,
+                                         this.schema, results);
         this.generateSummaryReport(txtpath, results);
     }
 
@@ -130,6 +153,9 @@ export class StringWindowAnalysis
 
             this.generateTableReport(ss, 'strings',
                                      results.strings);
+
+            this.generateTableReport(ss, 'templates',
+                                     results.templates);
         });
     }
 
@@ -169,6 +195,7 @@ export class StringWindowHandler
     readonly identCache: StringCache;
     readonly propCache: StringCache;
     readonly stringCache: StringCache;
+    readonly templateCache: StringCache;
     readonly counter: CounterGroup;
     readonly globalCounter: CounterGroup;
 
@@ -177,6 +204,7 @@ export class StringWindowHandler
         this.identCache = new StringCache(size);
         this.propCache = new StringCache(size);
         this.stringCache = new StringCache(size);
+        this.templateCache = new StringCache(size);
         this.counter = new CounterGroup(size);
         this.globalCounter = globalCounter;
     }
@@ -199,6 +227,16 @@ export class StringWindowHandler
                 throw new Error(`Unrecognized prop name ` +
                                             name);
             }
+        } else if (shape.ty === S.FieldTypePrimitive.Str &&
+                   isTemplateStringLocation(loc))
+        {
+            assert(typeof(value) === 'string');
+
+            const idx =
+                this.templateCache.lookup(value as string);
+
+            this.counter.recordTemplateHit(idx);
+            this.globalCounter.recordTemplateHit(idx);
         } else if (shape.ty === S.FieldTypePrimitive.Str) {
             assert(typeof(value) === 'string');
 
@@ -219,6 +257,7 @@ export type GroupResult = {
     idents: Array<HitResult>,
     props: Array<HitResult>,
     strings: Array<HitResult>,
+    templates: Array<HitResult>,
 };
 
 export class CounterGroup {
@@ -226,12 +265,14 @@ export class CounterGroup {
     readonly identCounter: HitCounter;
     readonly propCounter: HitCounter;
     readonly stringCounter: HitCounter;
+    readonly templateCounter: HitCounter;
 
     constructor(windowSize: number) {
         this.windowSize = windowSize;
         this.identCounter = new HitCounter(windowSize);
         this.propCounter = new HitCounter(windowSize);
         this.stringCounter = new HitCounter(windowSize);
+        this.templateCounter = new HitCounter(windowSize);
     }
 
     recordIdentHit(index: number) {
@@ -243,13 +284,17 @@ export class CounterGroup {
     recordStringHit(index: number) {
         this.stringCounter.recordHit(index);
     }
+    recordTemplateHit(index: number) {
+        this.templateCounter.recordHit(index);
+    }
 
     summarizeHits(): GroupResult {
         return {
             windowSize: this.windowSize,
             idents: this.identCounter.summarizeHits(),
             props: this.propCounter.summarizeHits(),
-            strings: this.stringCounter.summarizeHits()
+            strings: this.stringCounter.summarizeHits(),
+            templates: this.templateCounter.summarizeHits()
         };
     }
 }
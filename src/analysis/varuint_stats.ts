@@ -0,0 +1,119 @@
+
+import * as assert from 'assert';
+
+/**
+ * Shared helpers for collecting the statistics behind
+ * modeled varuints (see `VarUintModel`).
+ *
+ * A varuint is split into 7-bit groups, most significant
+ * first.  The number of groups (the length class) is
+ * coded first, and then each group is coded with a table
+ * specific to its length class and position.  All tables
+ * are keyed by `varuint#<name>#...`, in the same format
+ * as the path-suffix tables.
+ */
+
+// Values must be below 2^28, i.e. at most 4 groups.
+export const VARUINT_MAX_GROUPS: number = 4;
+export const VARUINT_LIMIT: number =
+    1 << (7 * VARUINT_MAX_GROUPS);
+export const VARUINT_GROUP_VALUES: number = 1 << 7;
+
+export function varUintGroups(value: number)
+  : Array<number>
+{
+    assert(Number.isInteger(value) && (value >= 0));
+    if (value >= VARUINT_LIMIT) {
+        throw new Error('Unhandled uint size');
+    }
+
+    const groups = new Array<number>();
+    let rest: number = value;
+    do {
+        groups.unshift(rest & 0x7F);
+        rest >>>= 7;
+    } while (rest > 0);
+    return groups;
+}
+
+export function varUintLengthKey(name: string): string {
+    return `varuint#${name}#length`;
+}
+
+export function varUintGroupKey(name: string,
+                                length: number,
+                                pos: number)
+  : string
+{
+    assert(pos < length && length <= VARUINT_MAX_GROUPS);
+    return `varuint#${name}#${length}.${pos}`;
+}
+
+export class VarUintCounter {
+    readonly name: string;
+    readonly lengths: Array<number>;
+    readonly groups: Map<string, Array<number>>;
+
+    constructor(name: string) {
+        this.name = name;
+        this.lengths =
+            new Array<number>(VARUINT_MAX_GROUPS).fill(0);
+        this.groups = new Map();
+        for (let len = 1; len <= VARUINT_MAX_GROUPS; len++) {
+            for (let pos = 0; pos < len; pos++) {
+                this.groups.set(
+                    varUintGroupKey(name, len, pos),
+                    new Array<number>(VARUINT_GROUP_VALUES)
+                        .fill(0));
+            }
+        }
+    }
+
+    record(value: number, count: number = 1) {
+        const groups = varUintGroups(value);
+        const len = groups.length;
+        this.lengths[len - 1] += count;
+        groups.forEach((g, pos) => {
+            const key = varUintGroupKey(this.name, len, pos);
+            this.groups.get(key)[g] += count;
+        });
+    }
+
+    /**
+     * Summarize as frequency tables.  Every entry gets
+     * one extra hit so that all values remain codable.
+     */
+    summarizeFreqs(): Array<object> {
+        const smooth = (counts: Array<number>) => {
+            return counts.map(c => c + 1);
+        };
+        const results = [
+            freqsJson(varUintLengthKey(this.name),
+                      this.lengths.map((_, i) => i + 1),
+                      smooth(this.lengths))
+        ];
+        this.groups.forEach((counts, key) => {
+            results.push(
+                freqsJson(key, counts.map((_, i) => i),
+                          smooth(counts)));
+        });
+        return results;
+    }
+}
+
+/**
+ * Build a frequency table entry in the format written by
+ * the path-suffix analysis and read by
+ * `ProbTable.fromSuffixArrayJson`.
+ */
+export function freqsJson(suffix: string,
+                          names: ReadonlyArray<string|number>,
+                          hits: ReadonlyArray<number>)
+  : object
+{
+    assert(names.length === hits.length);
+    const freqs = names.map((name, index) => {
+        return {name, index, hits: hits[index]};
+    });
+    return {suffix, freqs};
+}
@@ -0,0 +1,410 @@
+
+import * as S from 'binast-schema';
+
+import * as TS from '../typed_schema';
+import * as logger from '../logger';
+import {Analysis} from '../analysis';
+import {FileStore, liftSource, makeTypedInstance}
+    from '../file_store';
+import {MINIFIED, generateJs} from '../codegen';
+import {Container, SECTION_MODEL} from '../container';
+import {EncodeOptions, EntropyCodeAnalysis, EntropyModel,
+        encodeScript}
+    from './entropy_code';
+import {EntropyDecoder} from './entropy_decode';
+
+// The checks of the verify analysis.
+const CHECK_CODER: string = 'coder';
+const CHECK_JS: string = 'js';
+const CHECK_JSON: string = 'json';
+const CHECK_MIGRATION: string = 'migration';
+
+/**
+ * VerifyAnalysis checks that the entropy coder round
+ * trips.  Every script is lifted, coded into a container
+ * in memory, decoded back, and compared location by
+ * location against the lifted tree.
+ *
+ * With `--verify-js`, the decoded tree is then re-emitted
+ * as minified JS, which must match the JS emitted from
+ * the lifted tree, and lift back to the same tree, which
+ * checks the code generator.  With `--verify-json`, the
+ * lifted tree is written to both JSON forms and read
+ * back (see `S.TreeJsonCodec`), and with
+ * `--verify-migration`, it is migrated to the same schema
+ * (see `S.Migration`), both of which must leave it as it
+ * is.  Each check is counted and reported apart, so that
+ * a failure of the code generator, the JSON codec or the
+ * migration is not taken for one of the coder.
+ *
+ * The first differing location of each script is
+ * reported by its key path, along with the expected and
+ * decoded types and values.  The coding options are the
+ * same as for the entropy-code analysis.
+ */
+export class VerifyAnalysis
+  extends Analysis
+{
+    readonly model: EntropyModel;
+    readonly options: EncodeOptions;
+    readonly verifyJs: boolean;
+    readonly verifyJson: boolean;
+    readonly verifyMigration: boolean;
+    // The checks run, and how many scripts passed each.
+    readonly numVerified: Map<string, number>;
+    // The failed checks, as `<check> <subpath>`.
+    readonly failures: Array<string>;
+
+    constructor(schema: S.TreeSchema,
+                scriptStore: FileStore,
+                resultStore: FileStore,
+                opts: object)
+    {
+        super(schema, scriptStore, resultStore, opts);
+        this.model = EntropyCodeAnalysis.loadModel(
+                                schema, resultStore, opts);
+        this.options =
+            EntropyCodeAnalysis.encodeOptions(opts);
+        this.verifyJs = !!opts['verify-js'];
+        this.verifyJson = !!opts['verify-json'];
+        this.verifyMigration = !!opts['verify-migration'];
+        this.numVerified = new Map();
+        this.numVerified.set(CHECK_CODER, 0);
+        if (this.verifyJs) {
+            this.numVerified.set(CHECK_JS, 0);
+        }
+        if (this.verifyJson) {
+            this.numVerified.set(CHECK_JSON, 0);
+        }
+        if (this.verifyMigration) {
+            this.numVerified.set(CHECK_MIGRATION, 0);
+        }
+        this.failures = [];
+    }
+
+    get name(): string {
+        return 'verify';
+    }
+
+    analyzeAst(subpath: string, script: TS.Program) {
+        const {containerBytes} = encodeScript(this.schema,
+                            this.model, script, this.options);
+
+        const expected = new TreeDigestHandler();
+        this.visit(script, expected);
+        const digests = expected.digests;
+
+        let decoded: TS.Program;
+        const decodedOk = this.check(subpath, CHECK_CODER,
+                                     () => {
+            try {
+                decoded = this.decode(containerBytes);
+                return mismatchLines('differs', 'decoded ',
+                            this.compare(decoded, digests));
+            } catch (err) {
+                return [`decoding failed: ${err}`];
+            }
+        });
+        let ok = decodedOk;
+
+        // The JS re-emitted from both trees must be the
+        // same, and lift back to the same tree.
+        let js: string|null = null;
+        if (this.verifyJs && decodedOk) {
+            ok = this.check(subpath, CHECK_JS, () => {
+                js = generateJs(script, MINIFIED);
+                if (generateJs(decoded, MINIFIED) !== js) {
+                    return [`re-emitted JS differs`];
+                }
+                try {
+                    const {program} = liftSource(js,
+                            script instanceof TS.Module,
+                            this.liftOptions);
+                    return mismatchLines(
+                            're-emitted JS differs',
+                            'lifted  ',
+                            this.compare(program, digests));
+                } catch (err) {
+                    return [`lifting re-emitted JS` +
+                            ` failed: ${err}`];
+                }
+            }) && ok;
+        }
+
+        if (this.verifyJson) {
+            ok = this.check(subpath, CHECK_JSON, () => {
+                for (let compact of [false, true]) {
+                    const lines = this.checkJson(script,
+                                        digests, compact);
+                    if (lines !== null) {
+                        return lines;
+                    }
+                }
+                return null;
+            }) && ok;
+        }
+
+        if (this.verifyMigration) {
+            ok = this.check(subpath, CHECK_MIGRATION, () => {
+                try {
+                    const migration = new S.Migration(
+                            this.schema, this.schema,
+                            makeTypedInstance);
+                    const root = migration.migrate(script);
+                    return mismatchLines(
+                            'migrated tree differs',
+                            'migrated',
+                            this.compare(root as TS.Program,
+                                         digests));
+                } catch (err) {
+                    return [`migration failed: ${err}`];
+                }
+            }) && ok;
+        }
+        if (! ok) {
+            return;
+        }
+
+        const jsInfo = (js !== null)
+            ? `, ${js.length} bytes of minified JS` : '';
+        logger.log(`VERIFY OK ${subpath} -` +
+                   ` ${digests.length} locations` +
+                   ` in ${containerBytes.length} bytes` +
+                   jsInfo);
+    }
+
+    endAnalysis() {
+        const txtpath = this.dataPath('ALL.txt');
+        this.resultStore.writeSinkString(txtpath, ss => {
+            this.numVerified.forEach((num, check) => {
+                ss.write(`VERIFIED ${check} ${num}\n`);
+            });
+            for (let failure of this.failures) {
+                ss.write(`FAILED ${failure}\n`);
+            }
+        });
+
+        this.numVerified.forEach((num, check) => {
+            const failed = this.failures.filter(
+                        f => f.startsWith(`${check} `));
+            logger.log(`VERIFY ${check}: ${num} ok,` +
+                       ` ${failed.length} failed`);
+        });
+        if (this.failures.length > 0) {
+            throw new Error(`Verification failed for` +
+                            ` ${this.failures.length}` +
+                            ` checks of files.`);
+        }
+    }
+
+    /* Run a check of a script, which returns the lines
+     * describing a failure, or null.  Returns whether it
+     * passed.
+     */
+    private check(subpath: string, check: string,
+                  f: () => Array<string>|null)
+      : boolean
+    {
+        const lines = f();
+        if (lines !== null) {
+            this.failures.push(`${check} ${subpath}`);
+            logger.log(`VERIFY FAIL [${check}] ${subpath}` +
+                       ` - ${lines[0]}`);
+            for (let line of lines.slice(1)) {
+                logger.log(`    ${line}`);
+            }
+            return false;
+        }
+        this.numVerified.set(check,
+                             this.numVerified.get(check) + 1);
+        return true;
+    }
+
+    /* Write a tree to JSON and read it back. */
+    private checkJson(script: TS.Program,
+                      digests: ReadonlyArray<string>,
+                      compact: boolean)
+      : Array<string>|null
+    {
+        const form = compact ? 'compact JSON' : 'JSON';
+        try {
+            const codec = new S.TreeJsonCodec(this.schema,
+                                compact, makeTypedInstance);
+            const json = JSON.stringify(
+                                codec.toDocument(script));
+            const root = codec.fromDocument(JSON.parse(json));
+            return mismatchLines(`${form} differs`, 'read    ',
+                        this.compare(root as TS.Program,
+                                     digests));
+        } catch (err) {
+            return [`reading back ${form} failed: ${err}`];
+        }
+    }
+
+    private decode(bytes: Uint8Array): TS.Program {
+        // Go through the serialized container, as the
+        // entropy-decode analysis does.
+        const container = Container.decode(bytes);
+        const model = container.hasSection(SECTION_MODEL)
+            ? EntropyModel.decodeSection(this.schema,
+                    container.getSection(SECTION_MODEL))
+            : this.model;
+        const decoder = EntropyDecoder.forContainer(
+                            this.schema, model, container);
+        return decoder.decodeScript(
+                                    container.header.root);
+    }
+
+    private compare(root: TS.Program,
+                    digests: ReadonlyArray<string>)
+      : TreeMismatch|null
+    {
+        const compare = new TreeCompareHandler(digests);
+        this.visit(root, compare);
+        return compare.finish();
+    }
+
+    private visit(root: TS.Program,
+                  handler: S.VisitHandler)
+    {
+        const visitor = S.Visitor.make({
+            schema: this.schema,
+            root: root,
+            handler: handler
+        });
+        visitor.visit();
+    }
+}
+
+/* The lines reporting a mismatch, or null if none.
+ * `label` names the tree compared, aligned with
+ * `expected`.
+ */
+function mismatchLines(what: string, label: string,
+                       mismatch: TreeMismatch|null)
+  : Array<string>|null
+{
+    if (mismatch === null) {
+        return null;
+    }
+    return [`${what} at ${mismatch.path}`,
+            `expected ${mismatch.expected}`,
+            `${label} ${mismatch.decoded}`];
+}
+
+interface TreeMismatch {
+    readonly path: string;
+    readonly expected: string;
+    readonly decoded: string;
+}
+
+/**
+ * Collects a digest of every location of a tree, in
+ * visiting order.
+ */
+class TreeDigestHandler
+  implements S.VisitHandler
+{
+    readonly digests: Array<string>;
+
+    constructor() {
+        this.digests = [];
+    }
+
+    begin(schema: S.TreeSchema, loc: S.TreeLocation) {
+        this.digests.push(locationDigest(loc));
+    }
+
+    end(schema: S.TreeSchema, loc: S.TreeLocation) {
+    }
+}
+
+/**
+ * Compares every location of a tree against the digests
+ * of another, remembering the first that differs.
+ */
+class TreeCompareHandler
+  implements S.VisitHandler
+{
+    readonly expected: ReadonlyArray<string>;
+    index: number;
+    mismatch: TreeMismatch|null;
+
+    constructor(expected: ReadonlyArray<string>) {
+        this.expected = expected;
+        this.index = 0;
+        this.mismatch = null;
+    }
+
+    begin(schema: S.TreeSchema, loc: S.TreeLocation) {
+        if (this.mismatch) {
+            return;
+        }
+        const digest = locationDigest(loc);
+        const expected = (this.index < this.expected.length)
+            ? this.expected[this.index] : '<end of tree>';
+        if (digest !== expected) {
+            this.mismatch = {
+                path: keyPathString(loc),
+                expected, decoded: digest
+            };
+        }
+        this.index++;
+    }
+
+    end(schema: S.TreeSchema, loc: S.TreeLocation) {
+    }
+
+    finish(): TreeMismatch|null {
+        if ((! this.mismatch) &&
+            (this.index < this.expected.length))
+        {
+            this.mismatch = {
+                path: '<end of tree>',
+                expected: this.expected[this.index],
+                decoded: '<end of tree>'
+            };
+        }
+        return this.mismatch;
+    }
+}
+
+/** The key path from the root to a location. */
+function keyPathString(loc: S.TreeLocation): string {
+    const keys = new Array<S.PathKey>();
+    for (let iter = loc.ancestors(); !iter.done;
+         iter.next())
+    {
+        keys.push(iter.key);
+    }
+    return keys.reverse().join('.');
+}
+
+/**
+ * Describes the key, shape and value at a location.
+ * Compound values are described by their shape only
+ * (and length, for arrays), as their contents are
+ * visited separately.
+ */
+function locationDigest(loc: S.TreeLocation): string {
+    const {key, shape, value} = loc;
+    const ty = shape.ty;
+    const prefix = `${key}: ${ty.keyString()}`;
+
+    if (ty instanceof S.FieldTypeIface) {
+        return prefix;
+    } else if (ty instanceof S.FieldTypeArray) {
+        return `${prefix} length=` +
+               `${(value as Array<S.Value>).length}`;
+    } else if (ty instanceof S.FieldTypeIdent) {
+        const name = (value as S.Identifier).name;
+        return `${prefix} = ${JSON.stringify(name)}`;
+    } else if (typeof(value) === 'number') {
+        // Tell apart -0 and 0, which compare equal.
+        const num = Object.is(value, -0) ? '-0'
+                                         : `${value}`;
+        return `${prefix} = ${num}`;
+    } else {
+        return `${prefix} = ${JSON.stringify(value)}`;
+    }
+}
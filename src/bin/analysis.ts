@@ -24,9 +24,24 @@ import {PathSuffixAnalysis}
 import {GlobalStringsAnalysis}
     from '../analysis/global_strings';
 
+import {StringRefsAnalysis}
+    from '../analysis/string_refs';
+
+import {NumberStatsAnalysis}
+    from '../analysis/number_stats';
+
+import {ModelBundleAnalysis}
+    from '../analysis/model_bundle';
+
 import {EntropyCodeAnalysis}
     from '../analysis/entropy_code';
 
+import {EntropyDecodeAnalysis}
+    from '../analysis/entropy_decode';
+
+import {VerifyAnalysis}
+    from '../analysis/verify';
+
 const SCHEMA = TS.ReflectedSchema.schema;
 
 function main() {
@@ -59,9 +74,24 @@ function main() {
     if (opts['global-strings']) {
         analyses.push('global-strings');
     }
+    if (opts['string-refs']) {
+        analyses.push('string-refs');
+    }
+    if (opts['number-stats']) {
+        analyses.push('number-stats');
+    }
+    if (opts['model-bundle']) {
+        analyses.push('model-bundle');
+    }
     if (opts['entropy-code']) {
         analyses.push('entropy-code');
     }
+    if (opts['entropy-decode']) {
+        analyses.push('entropy-decode');
+    }
+    if (opts['verify']) {
+        analyses.push('verify');
+    }
 
     runStoreSuite(SCHEMA, scriptStore, resultStore,
                      analyses, opts as object);
@@ -108,9 +138,24 @@ function makeAnalysisTask(name: string,
       case 'global-strings':
         return new GlobalStringsAnalysis(
                     schema, scriptStore, resultStore, opts);
+      case 'string-refs':
+        return new StringRefsAnalysis(
+                    schema, scriptStore, resultStore, opts);
+      case 'number-stats':
+        return new NumberStatsAnalysis(
+                    schema, scriptStore, resultStore, opts);
+      case 'model-bundle':
+        return new ModelBundleAnalysis(
+                    schema, scriptStore, resultStore, opts);
       case 'entropy-code':
         return new EntropyCodeAnalysis(
                     schema, scriptStore, resultStore, opts);
+      case 'entropy-decode':
+        return new EntropyDecodeAnalysis(
+                    schema, scriptStore, resultStore, opts);
+      case 'verify':
+        return new VerifyAnalysis(
+                    schema, scriptStore, resultStore, opts);
     }
     throw new Error(`Unknown analysis ${name}`);
 }
@@ -122,6 +167,12 @@ function usage(exit: boolean) {
                "        Input scripts directory.");
     logger.log("   --result-dir=<outDir>               " +
                "        Output data directory.");
+    logger.log("   --lazy-functions                    " +
+               "        Lift functions as lazy functions.");
+    logger.log("   --modules                           " +
+               "        Parse all files as modules.");
+    logger.log("   --locations                         " +
+               "        Keep source locations for errors and reports.");
     logger.log("");
     logger.log("   --pretty-print                      " +
                "        Run pretty-print analysis.");
@@ -136,8 +187,40 @@ function usage(exit: boolean) {
     logger.log("   --path-suffix-length=length         " +
                "        Suffix length to use.");
     logger.log("");
+    logger.log("   --string-refs                       " +
+               "        Run string-refs analysis.");
+    logger.log("   --number-stats                      " +
+               "        Run number-stats analysis.");
+    logger.log("");
+    logger.log("   --model-bundle                      " +
+               "        Export the coder's model bundle.");
+    logger.log("");
     logger.log("   --entropy-code                      " +
                "        Run the entropy coder.");
+    logger.log("   --entropy-model=<bundlePath>        " +
+               "        Model bundle to code and decode with.");
+    logger.log("   --entropy-embed-model               " +
+               "        Embed the model in coded files.");
+    logger.log("   --entropy-strings=plain|brotli|range" +
+               "        String table compression.");
+    logger.log("   --entropy-adaptive                  " +
+               "        Adapt tables while coding.");
+    logger.log("   --entropy-adapt-increment=num       " +
+               "        Count added per coded symbol.");
+    logger.log("   --entropy-adapt-limit=num           " +
+               "        Count total before rescaling.");
+    logger.log("   --entropy-adapt-prior=num           " +
+               "        Weight of static tables (0=none).");
+    logger.log("   --entropy-decode                    " +
+               "        Decode the entropy coder output.");
+    logger.log("   --verify                            " +
+               "        Check that coding round trips.");
+    logger.log("   --verify-js                         " +
+               "        Also check re-emitted JS.");
+    logger.log("   --verify-json                       " +
+               "        Also check reading back JSON.");
+    logger.log("   --verify-migration                  " +
+               "        Also check migrating trees.");
     if (exit) {
         process.exit(1);
     }
@@ -0,0 +1,1603 @@
+
+import * as assert from 'assert';
+
+import * as S from 'binast-schema';
+
+import * as TS from './typed_schema';
+
+/**
+ * Emits JavaScript source from a typed tree, whether
+ * lifted or decoded.  Parentheses are only emitted where
+ * the precedence of operators (or the start of a
+ * statement) requires them, so the source lifts back to
+ * the same tree.
+ *
+ * In readable mode, statements go on lines of their own,
+ * indented by nesting, with spaces around operators.  In
+ * minified mode, only the whitespace separating tokens
+ * which would otherwise run together is emitted.
+ */
+
+export interface CodeGenOptions {
+    // Emit as little whitespace as possible, rather than
+    // one statement per line.
+    readonly minify: boolean;
+}
+
+export const MINIFIED: CodeGenOptions =
+    Object.freeze({minify: true});
+export const READABLE: CodeGenOptions =
+    Object.freeze({minify: false});
+
+export function generateJs(program: TS.Program,
+                           options: CodeGenOptions)
+  : string
+{
+    return new CodeGenerator(options).genProgram(program);
+}
+
+/** Operator precedence, from loosest to tightest. */
+enum Prec {
+    Sequence,
+    Assignment,         // Also arrows and `yield`.
+    Conditional,
+    LogicalOr,
+    LogicalAnd,
+    BitOr,
+    BitXor,
+    BitAnd,
+    Equality,
+    Relational,
+    Shift,
+    Additive,
+    Multiplicative,
+    Exponent,
+    Unary,              // Also prefix updates and `await`.
+    Postfix,
+    Call,
+    Member,             // Also `new` with arguments.
+    Primary
+}
+
+/** The code of an expression, and the precedence of its
+ * outermost operator.
+ */
+interface ExprCode {
+    readonly code: string;
+    readonly prec: Prec;
+}
+
+const BINARY_OPERATORS:
+    ReadonlyMap<TS.BinaryOperator, [string, Prec]> =
+    new Map<TS.BinaryOperator, [string, Prec]>([
+        [TS.BinaryOperator.Comma, [',', Prec.Sequence]],
+        [TS.BinaryOperator.LogicalOr, ['||', Prec.LogicalOr]],
+        [TS.BinaryOperator.LogicalAnd,
+            ['&&', Prec.LogicalAnd]],
+        [TS.BinaryOperator.Bitor, ['|', Prec.BitOr]],
+        [TS.BinaryOperator.Bitxor, ['^', Prec.BitXor]],
+        [TS.BinaryOperator.Bitand, ['&', Prec.BitAnd]],
+        [TS.BinaryOperator.Equal, ['==', Prec.Equality]],
+        [TS.BinaryOperator.NotEqual, ['!=', Prec.Equality]],
+        [TS.BinaryOperator.StrictEqual,
+            ['===', Prec.Equality]],
+        [TS.BinaryOperator.NotStrictEqual,
+            ['!==', Prec.Equality]],
+        [TS.BinaryOperator.LessThan, ['<', Prec.Relational]],
+        [TS.BinaryOperator.LessEqual,
+            ['<=', Prec.Relational]],
+        [TS.BinaryOperator.GreaterThan,
+            ['>', Prec.Relational]],
+        [TS.BinaryOperator.GreaterEqual,
+            ['>=', Prec.Relational]],
+        [TS.BinaryOperator.KwIn, ['in', Prec.Relational]],
+        [TS.BinaryOperator.KwInstanceof,
+            ['instanceof', Prec.Relational]],
+        [TS.BinaryOperator.Lsh, ['<<', Prec.Shift]],
+        [TS.BinaryOperator.Rsh, ['>>', Prec.Shift]],
+        [TS.BinaryOperator.Arsh, ['>>>', Prec.Shift]],
+        [TS.BinaryOperator.Plus, ['+', Prec.Additive]],
+        [TS.BinaryOperator.Minus, ['-', Prec.Additive]],
+        [TS.BinaryOperator.Mul, ['*', Prec.Multiplicative]],
+        [TS.BinaryOperator.Div, ['/', Prec.Multiplicative]],
+        [TS.BinaryOperator.Mod, ['%', Prec.Multiplicative]],
+        [TS.BinaryOperator.Pow, ['**', Prec.Exponent]]
+    ]);
+
+const COMPOUND_ASSIGNMENT_OPERATORS:
+    ReadonlyMap<TS.CompoundAssignmentOperator, string> =
+    new Map([
+        [TS.CompoundAssignmentOperator.PlusAssign, '+='],
+        [TS.CompoundAssignmentOperator.MinusAssign, '-='],
+        [TS.CompoundAssignmentOperator.MulAssign, '*='],
+        [TS.CompoundAssignmentOperator.DivAssign, '/='],
+        [TS.CompoundAssignmentOperator.ModAssign, '%='],
+        [TS.CompoundAssignmentOperator.PowAssign, '**='],
+        [TS.CompoundAssignmentOperator.LshAssign, '<<='],
+        [TS.CompoundAssignmentOperator.RshAssign, '>>='],
+        [TS.CompoundAssignmentOperator.ArshAssign, '>>>='],
+        [TS.CompoundAssignmentOperator.BitorAssign, '|='],
+        [TS.CompoundAssignmentOperator.BitxorAssign, '^='],
+        [TS.CompoundAssignmentOperator.BitandAssign, '&=']
+    ]);
+
+const UNARY_OPERATORS: ReadonlyMap<TS.UnaryOperator, string> =
+    new Map([
+        [TS.UnaryOperator.Plus, '+'],
+        [TS.UnaryOperator.Minus, '-'],
+        [TS.UnaryOperator.LogicalNot, '!'],
+        [TS.UnaryOperator.Bitnot, '~'],
+        [TS.UnaryOperator.KwTypeof, 'typeof'],
+        [TS.UnaryOperator.KwVoid, 'void'],
+        [TS.UnaryOperator.KwDelete, 'delete']
+    ]);
+
+const UPDATE_OPERATORS: ReadonlyMap<TS.UpdateOperator, string> =
+    new Map([
+        [TS.UpdateOperator.PlusPlus, '++'],
+        [TS.UpdateOperator.MinusMinus, '--']
+    ]);
+
+const VARIABLE_DECLARATION_KINDS:
+    ReadonlyMap<TS.VariableDeclarationKind, string> =
+    new Map([
+        [TS.VariableDeclarationKind.KwVar, 'var'],
+        [TS.VariableDeclarationKind.KwLet, 'let'],
+        [TS.VariableDeclarationKind.KwConst, 'const']
+    ]);
+
+// Expression statements starting with these would be
+// parsed as something else.
+const AMBIGUOUS_STATEMENT_START: RegExp =
+    /^(\{|function\b|class\b|let\s*\[|async\s+function\b)/;
+
+// As would default exports starting with these.
+const AMBIGUOUS_EXPORT_DEFAULT_START: RegExp =
+    /^(function\b|class\b|async\s+function\b)/;
+
+// The name the parser gives anonymous default exports.
+const DEFAULT_EXPORT_NAME: string = '*default*';
+
+class CodeGenerator {
+    readonly minify: boolean;
+
+    // The nesting depth of the statements being emitted.
+    depth: number;
+
+    // Whether `in` operators must be parenthesized, as
+    // within the head of a `for` statement.
+    noIn: boolean;
+
+    constructor(options: CodeGenOptions) {
+        this.minify = options.minify;
+        this.depth = 0;
+        this.noIn = false;
+    }
+
+    genProgram(program: TS.Program): string {
+        let lines: Array<string>;
+        if (program instanceof TS.Script) {
+            lines = this.genDirectives(program.directives)
+                .concat(program.statements.map(
+                    s => this.genStatement(s)));
+        } else {
+            lines = this.genDirectives(program.directives)
+                .concat(program.items.map(
+                    i => this.genModuleItem(i)));
+        }
+        return this.minify ? lines.join('')
+                           : lines.map(l => `${l}\n`).join('');
+    }
+
+    //
+    // Layout
+    //
+
+    private indent(): string {
+        return '    '.repeat(this.depth);
+    }
+
+    /* Emit with `f` with `noIn` set as given: true within
+     * the head of a `for` statement, and false again
+     * within anything delimited there, where `in` needs
+     * no parentheses.
+     */
+    private withNoIn<T>(noIn: boolean, f: () => T): T {
+        const outer = this.noIn;
+        this.noIn = noIn;
+        try {
+            return f();
+        } finally {
+            this.noIn = outer;
+        }
+    }
+
+    /* Join tokens, with a space between each in readable
+     * mode, and only where needed in minified mode.
+     */
+    private words(...parts: Array<string>): string {
+        if (! this.minify) {
+            return parts.join(' ');
+        }
+        // Each part is spaced from the last non-empty one
+        // before it, as a whole token (see `needsSpace`).
+        let code = '';
+        let last = '';
+        for (let part of parts) {
+            code += needsSpace(last, part) ? ` ${part}`
+                                           : part;
+            if (part.length > 0) {
+                last = part;
+            }
+        }
+        return code;
+    }
+
+    private list(items: Array<string>): string {
+        return items.join(this.minify ? ',' : ', ');
+    }
+
+    /* Brace the lines produced by `f`, which are emitted
+     * one level deeper.
+     */
+    private genBraced(f: () => Array<string>): string {
+        this.depth++;
+        const lines = this.withNoIn(false, f);
+        this.depth--;
+
+        if (lines.length === 0) {
+            return '{}';
+        }
+        if (this.minify) {
+            return `{${lines.join('')}}`;
+        }
+        const indent = this.indent();
+        const inner = lines.map(l => `${indent}    ${l}`);
+        return `{\n${inner.join('\n')}\n${indent}}`;
+    }
+
+    private genBody(directives: ReadonlyArray<TS.Directive>,
+                    statements: ReadonlyArray<TS.Statement>)
+      : string
+    {
+        return this.genBraced(() => {
+            return this.genDirectives(directives).concat(
+                statements.map(s => this.genStatement(s)));
+        });
+    }
+
+    private genDirectives(
+        directives: ReadonlyArray<TS.Directive>)
+      : Array<string>
+    {
+        return directives.map(d => {
+            return `${quoteRaw(d.rawValue)};`;
+        });
+    }
+
+    //
+    // Modules
+    //
+
+    private genModuleItem(
+        item: TS.ImportDeclaration | TS.ExportDeclaration |
+              TS.Statement)
+      : string
+    {
+        switch (item.iface$.name.name) {
+          case 'Import':
+            return this.genImport(item as TS.Import);
+          case 'ImportNamespace':
+            return this.genImportNamespace(
+                                    item as TS.ImportNamespace);
+          case 'ExportAllFrom':
+            return this.words('export', '*', 'from',
+                quoteString((item as TS.ExportAllFrom)
+                                .moduleSpecifier)) + ';';
+          case 'ExportFrom':
+            return this.genExportFrom(item as TS.ExportFrom);
+          case 'ExportLocals':
+            return this.genExportLocals(
+                                    item as TS.ExportLocals);
+          case 'Export':
+            return this.genExport(item as TS.Export);
+          case 'ExportDefault':
+            return this.genExportDefault(
+                                    item as TS.ExportDefault);
+          default:
+            return this.genStatement(item as TS.Statement);
+        }
+    }
+
+    private genImport(node: TS.Import): string {
+        const spec = quoteString(node.moduleSpecifier);
+        const clauses = new Array<string>();
+        if (node.defaultBinding !== null) {
+            clauses.push(node.defaultBinding.name.name);
+        }
+        if (node.namedImports.length > 0) {
+            clauses.push(this.genNamedList(
+                node.namedImports.map(s => {
+                    return this.genAsName(nameOf(s.name),
+                                          s.binding.name.name);
+                })));
+        }
+        if (clauses.length === 0) {
+            return this.words('import', spec) + ';';
+        }
+        return this.words('import', this.list(clauses),
+                          'from', spec) + ';';
+    }
+
+    private genImportNamespace(node: TS.ImportNamespace)
+      : string
+    {
+        const spec = quoteString(node.moduleSpecifier);
+        const namespace = this.words('*', 'as',
+                                node.namespaceBinding.name.name);
+        const clauses = (node.defaultBinding !== null)
+            ? [node.defaultBinding.name.name, namespace]
+            : [namespace];
+        return this.words('import', this.list(clauses),
+                          'from', spec) + ';';
+    }
+
+    private genExportFrom(node: TS.ExportFrom): string {
+        const names = node.namedExports.map(s => {
+            return this.genAsName(s.name.name,
+                                  nameOf(s.exportedName));
+        });
+        return this.words('export', this.genNamedList(names),
+                'from', quoteString(node.moduleSpecifier)) +
+               ';';
+    }
+
+    private genExportLocals(node: TS.ExportLocals): string {
+        const names = node.namedExports.map(s => {
+            return this.genAsName(s.name.name.name,
+                                  nameOf(s.exportedName));
+        });
+        return this.words('export',
+                          this.genNamedList(names)) + ';';
+    }
+
+    private genExport(node: TS.Export): string {
+        const decl = node.declaration;
+        const code =
+            (decl instanceof TS.VariableDeclaration)
+                ? this.genVariableDeclaration(decl) + ';'
+                : this.genStatement(decl);
+        return this.words('export', code);
+    }
+
+    private genExportDefault(node: TS.ExportDefault)
+      : string
+    {
+        const body = node.body;
+        if (isFunctionDeclaration(body) ||
+            (body instanceof TS.ClassDeclaration))
+        {
+            return this.words('export', 'default',
+                              this.genStatement(body));
+        }
+
+        let code = this.genExpression(body as TS.Expression,
+                                      Prec.Assignment);
+        if (code.match(AMBIGUOUS_EXPORT_DEFAULT_START)) {
+            code = `(${code})`;
+        }
+        return this.words('export', 'default', code) + ';';
+    }
+
+    /* `name as other`, or just `other` if they are the
+     * same, as in import and export lists.
+     */
+    private genAsName(name: string|null,
+                      other: string|null)
+      : string
+    {
+        if (name === null) {
+            return other;
+        }
+        if (other === null) {
+            return name;
+        }
+        return this.words(name, 'as', other);
+    }
+
+    private genNamedList(names: Array<string>): string {
+        return `{${this.list(names)}}`;
+    }
+
+    //
+    // Statements
+    //
+
+    private genStatement(stmt: TS.Statement): string {
+        switch (stmt.iface$.name.name) {
+          case 'Block':
+            return this.genBlock(stmt as TS.Block);
+          case 'BreakStatement':
+            return this.genJump('break',
+                        (stmt as TS.BreakStatement).label);
+          case 'ContinueStatement':
+            return this.genJump('continue',
+                        (stmt as TS.ContinueStatement).label);
+          case 'ClassDeclaration':
+            return this.genClass(stmt as TS.ClassDeclaration);
+          case 'DebuggerStatement':
+            return 'debugger;';
+          case 'EmptyStatement':
+            return ';';
+          case 'ExpressionStatement':
+            return this.genExpressionStatement(
+                        stmt as TS.ExpressionStatement);
+          case 'EagerFunctionDeclaration':
+          case 'LazyFunctionDeclaration':
+            return this.genFunction(
+                        stmt as TS.FunctionDeclaration);
+          case 'IfStatement':
+            return this.genIfStatement(
+                        stmt as TS.IfStatement);
+          case 'DoWhileStatement':
+            return this.genDoWhileStatement(
+                        stmt as TS.DoWhileStatement);
+          case 'ForInStatement':
+            return this.genForInOfStatement('in',
+                        stmt as TS.ForInStatement);
+          case 'ForOfStatement':
+            return this.genForInOfStatement('of',
+                        stmt as TS.ForOfStatement);
+          case 'ForStatement':
+            return this.genForStatement(
+                        stmt as TS.ForStatement);
+          case 'WhileStatement':
+            return this.genWhileStatement(
+                        stmt as TS.WhileStatement);
+          case 'LabelledStatement':
+            return this.genLabelledStatement(
+                        stmt as TS.LabelledStatement);
+          case 'ReturnStatement':
+            return this.genReturnStatement(
+                        stmt as TS.ReturnStatement);
+          case 'SwitchStatement':
+            return this.genSwitchStatement(
+                        stmt as TS.SwitchStatement);
+          case 'SwitchStatementWithDefault':
+            return this.genSwitchStatementWithDefault(
+                        stmt as TS.SwitchStatementWithDefault);
+          case 'ThrowStatement':
+            return this.words('throw',
+                this.genExpression(
+                    (stmt as TS.ThrowStatement).expression,
+                    Prec.Sequence)) + ';';
+          case 'TryCatchStatement':
+            return this.genTryCatchStatement(
+                        stmt as TS.TryCatchStatement);
+          case 'TryFinallyStatement':
+            return this.genTryFinallyStatement(
+                        stmt as TS.TryFinallyStatement);
+          case 'VariableDeclaration':
+            return this.genVariableDeclaration(
+                        stmt as TS.VariableDeclaration) + ';';
+          case 'WithStatement':
+            return this.genWithStatement(
+                        stmt as TS.WithStatement);
+          default:
+            throw new Error(`Cannot generate statement` +
+                            ` ${stmt.iface$.name.name}`);
+        }
+    }
+
+    private genBlock(block: TS.Block): string {
+        return this.genBraced(() => {
+            return block.statements.map(
+                s => this.genStatement(s));
+        });
+    }
+
+    private genJump(keyword: string, label: TS.Label|null)
+      : string
+    {
+        return ((label !== null)
+                    ? this.words(keyword, label)
+                    : keyword) + ';';
+    }
+
+    private genExpressionStatement(
+        stmt: TS.ExpressionStatement)
+      : string
+    {
+        const expr = stmt.expression;
+        let code = this.genExpression(expr, Prec.Sequence);
+
+        // A string literal statement could be taken for a
+        // directive.
+        if (code.match(AMBIGUOUS_STATEMENT_START) ||
+            (expr instanceof TS.LiteralStringExpression))
+        {
+            code = `(${code})`;
+        }
+        return `${code};`;
+    }
+
+    /* A statement which is the body of another. */
+    private genSubStatement(stmt: TS.Statement): string {
+        const code = this.genStatement(stmt);
+        return this.minify ? code : ` ${code}`;
+    }
+
+    private genHead(keyword: string, head: string): string {
+        return this.words(keyword, `(${head})`);
+    }
+
+    private genIfStatement(stmt: TS.IfStatement): string {
+        const test = this.genExpression(stmt.test,
+                                        Prec.Sequence);
+        const head = this.genHead('if', test);
+        if (stmt.alternate === null) {
+            return head + this.genSubStatement(stmt.consequent);
+        }
+
+        // Brace the consequent if an `else` would
+        // otherwise attach to an `if` within it.
+        let consequent = this.genSubStatement(
+                                            stmt.consequent);
+        if (endsWithIfWithoutElse(stmt.consequent)) {
+            const braced = this.genBraced(() => {
+                return [this.genStatement(stmt.consequent)];
+            });
+            consequent = this.minify ? braced : ` ${braced}`;
+        }
+        return head + consequent +
+               this.words(this.minify ? '' : ' ', 'else',
+                          this.genStatement(stmt.alternate))
+                   .replace(/^ +/, this.minify ? '' : ' ');
+    }
+
+    private genDoWhileStatement(stmt: TS.DoWhileStatement)
+      : string
+    {
+        const body = this.genStatement(stmt.body);
+        const test = this.genExpression(stmt.test,
+                                        Prec.Sequence);
+        return this.words('do', body,
+                          this.genHead('while', test)) + ';';
+    }
+
+    private genForInOfStatement(
+        keyword: string,
+        stmt: TS.ForInStatement | TS.ForOfStatement)
+      : string
+    {
+        const left = stmt.left;
+        const leftCode = (left instanceof TS.ForInOfBinding)
+            ? this.words(
+                VARIABLE_DECLARATION_KINDS.get(left.kind),
+                this.genBinding(left.binding))
+            : this.genAssignmentTarget(left);
+
+        // The right side of for-of may not be a sequence.
+        const right = this.genExpression(stmt.right,
+            (keyword === 'of') ? Prec.Assignment
+                               : Prec.Sequence);
+
+        const head = this.words(leftCode, keyword, right);
+        return this.genHead('for', head) +
+               this.genSubStatement(stmt.body);
+    }
+
+    private genForStatement(stmt: TS.ForStatement): string {
+        const {init, test, update} = stmt;
+
+        const initCode = this.withNoIn(true, () => {
+            return (init === null) ? '' :
+                (init instanceof TS.VariableDeclaration)
+                    ? this.genVariableDeclaration(init)
+                    : this.genExpression(init, Prec.Sequence);
+        });
+
+        const testCode = (test !== null)
+            ? this.genExpression(test, Prec.Sequence) : '';
+        const updateCode = (update !== null)
+            ? this.genExpression(update, Prec.Sequence) : '';
+
+        const sep = (code: string) => {
+            return (this.minify || (code === ''))
+                ? `;${code}` : `; ${code}`;
+        };
+        const head = initCode + sep(testCode) +
+                     sep(updateCode);
+        return this.genHead('for', head) +
+               this.genSubStatement(stmt.body);
+    }
+
+    private genWhileStatement(stmt: TS.WhileStatement)
+      : string
+    {
+        const test = this.genExpression(stmt.test,
+                                        Prec.Sequence);
+        return this.genHead('while', test) +
+               this.genSubStatement(stmt.body);
+    }
+
+    private genWithStatement(stmt: TS.WithStatement)
+      : string
+    {
+        const object = this.genExpression(stmt.object,
+                                          Prec.Sequence);
+        return this.genHead('with', object) +
+               this.genSubStatement(stmt.body);
+    }
+
+    private genLabelledStatement(
+        stmt: TS.LabelledStatement)
+      : string
+    {
+        return `${stmt.label}:` +
+               this.genSubStatement(stmt.body);
+    }
+
+    private genReturnStatement(stmt: TS.ReturnStatement)
+      : string
+    {
+        if (stmt.expression === null) {
+            return 'return;';
+        }
+        return this.words('return',
+            this.genExpression(stmt.expression,
+                               Prec.Sequence)) + ';';
+    }
+
+    private genSwitchStatement(stmt: TS.SwitchStatement)
+      : string
+    {
+        const head = this.genHead('switch',
+            this.genExpression(stmt.discriminant,
+                               Prec.Sequence));
+        const body = this.genBraced(() => {
+            return flatten(stmt.cases.map(
+                c => this.genSwitchCase(c)));
+        });
+        return this.words(head, body);
+    }
+
+    private genSwitchStatementWithDefault(
+        stmt: TS.SwitchStatementWithDefault)
+      : string
+    {
+        const head = this.genHead('switch',
+            this.genExpression(stmt.discriminant,
+                               Prec.Sequence));
+        const body = this.genBraced(() => {
+            return flatten([].concat(
+                stmt.preDefaultCases.map(
+                    c => this.genSwitchCase(c)),
+                [this.genSwitchDefault(stmt.defaultCase)],
+                stmt.postDefaultCases.map(
+                    c => this.genSwitchCase(c))));
+        });
+        return this.words(head, body);
+    }
+
+    private genSwitchCase(switchCase: TS.SwitchCase)
+      : Array<string>
+    {
+        const test = this.genExpression(switchCase.test,
+                                        Prec.Sequence);
+        return this.genCaseLines(this.words('case', test),
+                                 switchCase.consequent);
+    }
+
+    private genSwitchDefault(switchDefault: TS.SwitchDefault)
+      : Array<string>
+    {
+        return this.genCaseLines('default',
+                                 switchDefault.consequent);
+    }
+
+    /* The label of a case, followed by its statements,
+     * indented one level further.
+     */
+    private genCaseLines(label: string,
+                         consequent: ReadonlyArray<TS.Statement>)
+      : Array<string>
+    {
+        this.depth++;
+        const statements = consequent.map(s => {
+            const code = this.genStatement(s);
+            return this.minify ? code : `    ${code}`;
+        });
+        this.depth--;
+        return [`${label}:`].concat(statements);
+    }
+
+    private genTryCatchStatement(
+        stmt: TS.TryCatchStatement)
+      : string
+    {
+        return this.words('try', this.genBlock(stmt.body),
+                          this.genCatchClause(stmt.catchClause));
+    }
+
+    private genTryFinallyStatement(
+        stmt: TS.TryFinallyStatement)
+      : string
+    {
+        const parts = ['try', this.genBlock(stmt.body)];
+        if (stmt.catchClause !== null) {
+            parts.push(this.genCatchClause(stmt.catchClause));
+        }
+        parts.push('finally', this.genBlock(stmt.finalizer));
+        return this.words(...parts);
+    }
+
+    private genCatchClause(clause: TS.CatchClause): string {
+        return this.words(
+            this.genHead('catch',
+                         this.genBinding(clause.binding)),
+            this.genBlock(clause.body));
+    }
+
+    private genVariableDeclaration(
+        decl: TS.VariableDeclaration)
+      : string
+    {
+        const declarators = decl.declarators.map(d => {
+            const binding = this.genBinding(d.binding);
+            if (d.init === null) {
+                return binding;
+            }
+            return this.genInitialized(binding, d.init);
+        });
+        return this.words(
+            VARIABLE_DECLARATION_KINDS.get(decl.kind),
+            this.list(declarators));
+    }
+
+    /* `code = init`, as in declarations, parameters and
+     * patterns.
+     */
+    private genInitialized(code: string,
+                           init: TS.Expression)
+      : string
+    {
+        const initCode = this.genExpression(init,
+                                            Prec.Assignment);
+        return this.minify ? `${code}=${initCode}`
+                           : `${code} = ${initCode}`;
+    }
+
+    //
+    // Functions and classes
+    //
+
+    private genFunction(
+        fn: TS.FunctionDeclaration | TS.FunctionExpression)
+      : string
+    {
+        const contents =
+            (fn instanceof TS.LazyFunctionDeclaration)
+                ? fn.content
+                : fn.contents;
+
+        const keyword = fn.isGenerator ? 'function*'
+                                       : 'function';
+        const parts = fn.isAsync ? ['async', keyword]
+                                 : [keyword];
+        if ((fn.name !== null) &&
+            (fn.name.name.name !== DEFAULT_EXPORT_NAME))
+        {
+            parts.push(fn.name.name.name);
+        }
+
+        const params = this.genFormalParameters(
+                                            contents.params);
+        const body = this.genBody(fn.directives,
+                                  contents.body);
+        return this.words(...parts) + params +
+               (this.minify ? body : ` ${body}`);
+    }
+
+    private genFormalParameters(params: TS.FormalParameters)
+      : string
+    {
+        const items = this.withNoIn(false, () => {
+            return params.items.map(
+                            p => this.genParameter(p));
+        });
+        if (params.rest !== null) {
+            items.push(`...${this.genBinding(params.rest)}`);
+        }
+        return `(${this.list(items)})`;
+    }
+
+    private genParameter(param: TS.Parameter): string {
+        if (param instanceof TS.BindingWithInitializer) {
+            return this.genInitialized(
+                this.genBinding(param.binding), param.init);
+        }
+        return this.genBinding(param);
+    }
+
+    private genArrow(arrow: TS.ArrowExpression): string {
+        const {params, body} = arrow.contents;
+        const paramsCode = this.genFormalParameters(params);
+
+        let bodyCode: string;
+        if (Array.isArray(body)) {
+            bodyCode = this.genBody(arrow.directives,
+                        body as ReadonlyArray<TS.Statement>);
+        } else {
+            bodyCode = this.genExpression(
+                    body as TS.Expression, Prec.Assignment);
+            // An object literal would be taken for a
+            // function body.
+            if (bodyCode.startsWith('{')) {
+                bodyCode = `(${bodyCode})`;
+            }
+        }
+
+        const arrowCode = this.minify
+            ? `${paramsCode}=>${bodyCode}`
+            : `${paramsCode} => ${bodyCode}`;
+        return arrow.isAsync ? this.words('async', arrowCode)
+                             : arrowCode;
+    }
+
+    private genClass(
+        cls: TS.ClassDeclaration | TS.ClassExpression)
+      : string
+    {
+        const parts = ['class'];
+        if ((cls.name !== null) &&
+            (cls.name.name.name !== DEFAULT_EXPORT_NAME))
+        {
+            parts.push(cls.name.name.name);
+        }
+        if (cls.super !== null) {
+            parts.push('extends',
+                this.genExpression(cls.super, Prec.Call));
+        }
+
+        const body = this.genBraced(() => {
+            return cls.elements.map(e => {
+                const method = this.genMethod(e.method);
+                return e.isStatic
+                    ? this.words('static', method)
+                    : method;
+            });
+        });
+        return this.words(...parts, body);
+    }
+
+    private genMethod(method: TS.MethodDefinition): string {
+        const name = this.genPropertyName(method.name);
+        const space = this.minify ? '' : ' ';
+
+        if ((method instanceof TS.EagerGetter) ||
+            (method instanceof TS.LazyGetter))
+        {
+            const body = this.genBody(method.directives,
+                                      method.contents.body);
+            return this.words('get', name) + `()${space}` +
+                   body;
+        }
+
+        if ((method instanceof TS.EagerSetter) ||
+            (method instanceof TS.LazySetter))
+        {
+            const param = this.genParameter(
+                                    method.contents.param);
+            const body = this.genBody(method.directives,
+                                      method.contents.body);
+            return this.words('set', name) +
+                   `(${param})${space}${body}`;
+        }
+
+        assert((method instanceof TS.EagerMethod) ||
+               (method instanceof TS.LazyMethod));
+        const {isAsync, isGenerator, contents} =
+            method as TS.Method;
+        const parts = isAsync ? ['async'] : [];
+        parts.push(isGenerator ? `*${name}` : name);
+
+        const params = this.genFormalParameters(
+                                            contents.params);
+        const body = this.genBody(method.directives,
+                                  contents.body);
+        return this.words(...parts) + params + space + body;
+    }
+
+    private genPropertyName(name: TS.PropertyName): string {
+        if (name instanceof TS.ComputedPropertyName) {
+            return '[' + this.genDelimited(name.expression,
+                                        Prec.Assignment) + ']';
+        }
+
+        const value = name.value.name;
+        if (value.match(/^[A-Za-z_$][\w$]*$/)) {
+            return value;
+        }
+        // Names which are canonical numbers can go
+        // unquoted.
+        const num = Number(value);
+        if ((value !== '') && (num >= 0) &&
+            (String(num) === value))
+        {
+            return numberToJs(num, this.minify);
+        }
+        return quoteString(value);
+    }
+
+    //
+    // Expressions
+    //
+
+    /* Generate an expression, parenthesized if its
+     * precedence is lower than `prec`.
+     */
+    private genExpression(expr: TS.Expression, prec: Prec)
+      : string
+    {
+        const code = this.genExpr(expr);
+        if (this.noIn && (code.prec < prec)) {
+            // Emit it again, as `in` needs no parentheses
+            // of its own within these.
+            const inner = this.withNoIn(false, () => {
+                return this.genExpr(expr);
+            });
+            return `(${inner.code})`;
+        }
+        return parenthesize(code, prec);
+    }
+
+    /* Generate an expression within delimiters, such as
+     * brackets or the parentheses of arguments.
+     */
+    private genDelimited(expr: TS.Expression, prec: Prec)
+      : string
+    {
+        return this.withNoIn(false, () => {
+            return this.genExpression(expr, prec);
+        });
+    }
+
+    private genExpressionOrSuper(expr: TS.Expression |
+                                       TS.Super)
+      : ExprCode
+    {
+        if (expr instanceof TS.Super) {
+            return {code: 'super', prec: Prec.Primary};
+        }
+        return this.genExpr(expr);
+    }
+
+    private genExpr(expr: TS.Expression): ExprCode {
+        switch (expr.iface$.name.name) {
+          case 'LiteralBooleanExpression':
+            return primary(
+                `${(expr as TS.LiteralBooleanExpression)
+                        .value}`);
+          case 'LiteralInfinityExpression':
+            return primary('2e308');
+          case 'LiteralNullExpression':
+            return primary('null');
+          case 'LiteralNumericExpression':
+            return primary(numberToJs(
+                (expr as TS.LiteralNumericExpression).value,
+                this.minify));
+          case 'LiteralRegExpExpression': {
+            const re = expr as TS.LiteralRegExpExpression;
+            return primary(`/${re.pattern}/${re.flags}`);
+          }
+          case 'LiteralStringExpression':
+            return primary(quoteString(
+                (expr as TS.LiteralStringExpression).value));
+          case 'ArrayExpression':
+            return primary(this.genArrayExpression(
+                        expr as TS.ArrayExpression));
+          case 'EagerArrowExpression':
+          case 'LazyArrowExpression':
+            return {
+                code: this.genArrow(
+                            expr as TS.ArrowExpression),
+                prec: Prec.Assignment
+            };
+          case 'AssignmentExpression':
+            return this.genAssignmentExpression(
+                        expr as TS.AssignmentExpression);
+          case 'BinaryExpression':
+            return this.genBinaryExpression(
+                        expr as TS.BinaryExpression);
+          case 'CallExpression':
+            return this.genCallExpression(
+                        expr as TS.CallExpression);
+          case 'CompoundAssignmentExpression':
+            return this.genCompoundAssignmentExpression(
+                expr as TS.CompoundAssignmentExpression);
+          case 'ComputedMemberExpression': {
+            const member = expr as TS.ComputedMemberExpression;
+            return this.genMember(member.object,
+                '[' + this.genDelimited(member.expression,
+                                        Prec.Sequence) + ']');
+          }
+          case 'ConditionalExpression':
+            return this.genConditionalExpression(
+                        expr as TS.ConditionalExpression);
+          case 'ClassExpression':
+            return primary(this.genClass(
+                        expr as TS.ClassExpression));
+          case 'EagerFunctionExpression':
+          case 'LazyFunctionExpression':
+            return primary(this.genFunction(
+                        expr as TS.FunctionExpression));
+          case 'IdentifierExpression':
+            return primary(
+                (expr as TS.IdentifierExpression).name.name);
+          case 'NewExpression':
+            return this.genNewExpression(
+                        expr as TS.NewExpression);
+          case 'NewTargetExpression':
+            return primary('new.target');
+          case 'ObjectExpression':
+            return primary(this.genObjectExpression(
+                        expr as TS.ObjectExpression));
+          case 'UnaryExpression':
+            return this.genUnaryExpression(
+                        expr as TS.UnaryExpression);
+          case 'StaticMemberExpression': {
+            const member = expr as TS.StaticMemberExpression;
+            return this.genMember(member.object,
+                                  `.${member.property.name}`);
+          }
+          case 'TemplateExpression':
+            return this.genTemplateExpression(
+                        expr as TS.TemplateExpression);
+          case 'ThisExpression':
+            return primary('this');
+          case 'UpdateExpression':
+            return this.genUpdateExpression(
+                        expr as TS.UpdateExpression);
+          case 'YieldExpression': {
+            const inner = (expr as TS.YieldExpression)
+                                .expression;
+            return {
+                code: (inner !== null)
+                    ? this.words('yield', this.genExpression(
+                                    inner, Prec.Assignment))
+                    : 'yield',
+                prec: Prec.Assignment
+            };
+          }
+          case 'YieldStarExpression':
+            return {
+                code: this.words('yield*', this.genExpression(
+                    (expr as TS.YieldStarExpression).expression,
+                    Prec.Assignment)),
+                prec: Prec.Assignment
+            };
+          case 'AwaitExpression':
+            return {
+                code: this.words('await', this.genExpression(
+                    (expr as TS.AwaitExpression).expression,
+                    Prec.Unary)),
+                prec: Prec.Unary
+            };
+          default:
+            throw new Error(`Cannot generate expression` +
+                            ` ${expr.iface$.name.name}`);
+        }
+    }
+
+    private genArrayExpression(expr: TS.ArrayExpression)
+      : string
+    {
+        return this.genArrayLike(expr.elements.map(e => {
+            if (e === null) {
+                return null;
+            }
+            if (e instanceof TS.SpreadElement) {
+                return this.genSpreadElement(e);
+            }
+            return this.genDelimited(e, Prec.Assignment);
+        }));
+    }
+
+    /* Elements of arrays and array patterns, where null
+     * elements are holes.
+     */
+    private genArrayLike(elements: Array<string|null>)
+      : string
+    {
+        const codes = elements.map(
+                        e => (e !== null) ? e : '');
+        // A trailing hole takes a comma of its own.
+        const trailing = ((elements.length > 0) &&
+                          (elements[elements.length - 1]
+                                === null)) ? ',' : '';
+        return `[${this.list(codes)}${trailing}]`;
+    }
+
+    private genSpreadElement(spread: TS.SpreadElement)
+      : string
+    {
+        return '...' + this.genDelimited(spread.expression,
+                                         Prec.Assignment);
+    }
+
+    private genArguments(args: TS.Arguments): string {
+        return '(' + this.list(args.map(a => {
+            if (a instanceof TS.SpreadElement) {
+                return this.genSpreadElement(a);
+            }
+            return this.genDelimited(a, Prec.Assignment);
+        })) + ')';
+    }
+
+    private genAssignmentExpression(
+        expr: TS.AssignmentExpression)
+      : ExprCode
+    {
+        const target = this.genAssignmentTarget(expr.binding);
+        return {
+            code: this.genInitialized(target, expr.expression),
+            prec: Prec.Assignment
+        };
+    }
+
+    private genCompoundAssignmentExpression(
+        expr: TS.CompoundAssignmentExpression)
+      : ExprCode
+    {
+        const target = this.genAssignmentTarget(expr.binding);
+        const op = COMPOUND_ASSIGNMENT_OPERATORS.get(
+                                            expr.operator);
+        const value = this.genExpression(expr.expression,
+                                         Prec.Assignment);
+        return {
+            code: this.minify ? `${target}${op}${value}`
+                              : `${target} ${op} ${value}`,
+            prec: Prec.Assignment
+        };
+    }
+
+    private genBinaryExpression(expr: TS.BinaryExpression)
+      : ExprCode
+    {
+        const [op, prec] = BINARY_OPERATORS.get(
+                                            expr.operator);
+
+        // Operators group to the left, but for `**`, which
+        // groups to the right and may not have a unary
+        // expression on its left.
+        const isPow = (prec === Prec.Exponent);
+        const left = this.genExpression(expr.left,
+            isPow ? Prec.Postfix : prec);
+        const right = this.genExpression(expr.right,
+            isPow ? prec : prec + 1);
+
+        let code: string;
+        if (op === ',') {
+            code = this.list([left, right]);
+        } else {
+            code = this.words(left, op, right);
+        }
+
+        if ((expr.operator === TS.BinaryOperator.KwIn) &&
+            this.noIn)
+        {
+            return primary(`(${code})`);
+        }
+        return {code, prec};
+    }
+
+    private genCallExpression(expr: TS.CallExpression)
+      : ExprCode
+    {
+        const callee = parenthesize(
+            this.genExpressionOrSuper(expr.callee), Prec.Call);
+        return {
+            code: callee + this.genArguments(expr.arguments),
+            prec: Prec.Call
+        };
+    }
+
+    private genNewExpression(expr: TS.NewExpression)
+      : ExprCode
+    {
+        // Calls within the callee are parenthesized, as
+        // their arguments would be taken for those of the
+        // `new`.
+        const callee = this.genExpression(expr.callee,
+                                          Prec.Member);
+        return {
+            code: this.words('new', callee) +
+                  this.genArguments(expr.arguments),
+            prec: Prec.Member
+        };
+    }
+
+    /* A member access of `object`.  Member accesses of
+     * calls are calls themselves, as far as `new` is
+     * concerned.
+     */
+    private genMember(object: TS.Expression | TS.Super,
+                      access: string)
+      : ExprCode
+    {
+        const objectCode = this.genExpressionOrSuper(object);
+        let code = parenthesize(objectCode, Prec.Call);
+        // A dot after an integer would be taken for a
+        // decimal point.
+        if (code.match(/^[0-9]+$/)) {
+            code = `(${code})`;
+        }
+        return {
+            code: code + access,
+            prec: (objectCode.prec === Prec.Call)
+                ? Prec.Call : Prec.Member
+        };
+    }
+
+    private genConditionalExpression(
+        expr: TS.ConditionalExpression)
+      : ExprCode
+    {
+        const test = this.genExpression(expr.test,
+                                        Prec.LogicalOr);
+        // The consequent may hold `in` as it is followed
+        // by the `:`.
+        const consequent = this.genDelimited(
+                            expr.consequent, Prec.Assignment);
+        const alternate = this.genExpression(
+                            expr.alternate, Prec.Assignment);
+        return {
+            code: this.words(test, '?', consequent, ':',
+                             alternate),
+            prec: Prec.Conditional
+        };
+    }
+
+    private genObjectExpression(expr: TS.ObjectExpression)
+      : string
+    {
+        const properties = expr.properties.map(p => {
+            if (p instanceof TS.DataProperty) {
+                const name = this.genPropertyName(p.name);
+                const value = this.genDelimited(
+                            p.expression, Prec.Assignment);
+                return this.minify ? `${name}:${value}`
+                                   : `${name}: ${value}`;
+            }
+            if (p instanceof TS.ShorthandProperty) {
+                return p.name.name.name;
+            }
+            return this.genMethod(p as TS.MethodDefinition);
+        });
+        return `{${this.list(properties)}}`;
+    }
+
+    private genUnaryExpression(expr: TS.UnaryExpression)
+      : ExprCode
+    {
+        const op = UNARY_OPERATORS.get(expr.operator);
+        const operand = this.genExpression(expr.operand,
+                                           Prec.Unary);
+        // Symbolic operators are not spaced, but for
+        // operands which would run into them.
+        const code = op.match(/^[a-z]/)
+            ? this.words(op, operand)
+            : joinTokens(op, operand);
+        return {code, prec: Prec.Unary};
+    }
+
+    private genUpdateExpression(expr: TS.UpdateExpression)
+      : ExprCode
+    {
+        const op = UPDATE_OPERATORS.get(expr.operator);
+        const operand = this.genAssignmentTarget(expr.operand);
+        if (expr.isPrefix) {
+            return {
+                code: joinTokens(op, operand),
+                prec: Prec.Unary
+            };
+        }
+        return {code: operand + op, prec: Prec.Postfix};
+    }
+
+    private genTemplateExpression(
+        expr: TS.TemplateExpression)
+      : ExprCode
+    {
+        const parts = expr.elements.map(e => {
+            if (e instanceof TS.TemplateElement) {
+                return e.rawValue;
+            }
+            return '${' + this.genDelimited(
+                e as TS.Expression, Prec.Sequence) + '}';
+        });
+        const template = '`' + parts.join('') + '`';
+        if (expr.tag === null) {
+            return primary(template);
+        }
+
+        const tag = this.genExpr(expr.tag);
+        return {
+            code: parenthesize(tag, Prec.Call) + template,
+            prec: (tag.prec === Prec.Call) ? Prec.Call
+                                           : Prec.Member
+        };
+    }
+
+    //
+    // Bindings and assignment targets
+    //
+
+    private genBinding(binding: TS.Binding): string {
+        if (binding instanceof TS.BindingIdentifier) {
+            return binding.name.name;
+        }
+
+        // Patterns are bracketed.
+        return this.withNoIn(false, () => {
+            if (binding instanceof TS.ArrayBinding) {
+                const elements = binding.elements.map(e => {
+                    return (e !== null) ? this.genParameter(e)
+                                        : null;
+                });
+                if (binding.rest !== null) {
+                    elements.push(
+                        `...${this.genBinding(binding.rest)}`);
+                }
+                return this.genArrayLike(elements);
+            }
+
+            const properties = (binding as TS.ObjectBinding)
+                    .properties.map(p => {
+                if (p instanceof TS.BindingPropertyIdentifier) {
+                    const name = p.binding.name.name;
+                    return (p.init !== null)
+                        ? this.genInitialized(name, p.init)
+                        : name;
+                }
+                const prop = p as TS.BindingPropertyProperty;
+                const name = this.genPropertyName(prop.name);
+                const value = this.genParameter(prop.binding);
+                return this.minify ? `${name}:${value}`
+                                   : `${name}: ${value}`;
+            });
+            return `{${this.list(properties)}}`;
+        });
+    }
+
+    private genAssignmentTarget(target: TS.AssignmentTarget)
+      : string
+    {
+        if (target instanceof TS.AssignmentTargetIdentifier) {
+            return target.name.name;
+        }
+        if (target instanceof
+                TS.StaticMemberAssignmentTarget)
+        {
+            return this.genMember(target.object,
+                                  `.${target.property.name}`).code;
+        }
+        if (target instanceof
+                TS.ComputedMemberAssignmentTarget)
+        {
+            return this.genMember(target.object,
+                '[' + this.genDelimited(target.expression,
+                                        Prec.Sequence) + ']')
+                .code;
+        }
+
+        // Patterns are bracketed.
+        return this.withNoIn(false, () => {
+            if (target instanceof TS.ArrayAssignmentTarget) {
+                const elements = target.elements.map(e => {
+                    return (e !== null)
+                        ? this.genAssignmentTargetElement(e)
+                        : null;
+                });
+                if (target.rest !== null) {
+                    elements.push('...' +
+                        this.genAssignmentTarget(target.rest));
+                }
+                return this.genArrayLike(elements);
+            }
+
+            const properties =
+                (target as TS.ObjectAssignmentTarget)
+                    .properties.map(p => {
+                if (p instanceof
+                        TS.AssignmentTargetPropertyIdentifier)
+                {
+                    const name = p.binding.name.name;
+                    return (p.init !== null)
+                        ? this.genInitialized(name, p.init)
+                        : name;
+                }
+                const prop = p as
+                    TS.AssignmentTargetPropertyProperty;
+                const name = this.genPropertyName(prop.name);
+                const value = this.genAssignmentTargetElement(
+                                                prop.binding);
+                return this.minify ? `${name}:${value}`
+                                   : `${name}: ${value}`;
+            });
+            return `{${this.list(properties)}}`;
+        });
+    }
+
+    private genAssignmentTargetElement(
+        element: TS.AssignmentTarget |
+                 TS.AssignmentTargetWithInitializer)
+      : string
+    {
+        if (element instanceof
+                TS.AssignmentTargetWithInitializer)
+        {
+            return this.genInitialized(
+                this.genAssignmentTarget(element.binding),
+                element.init);
+        }
+        return this.genAssignmentTarget(element);
+    }
+}
+
+function nameOf(id: S.Identifier|null): string|null {
+    return (id !== null) ? id.name : null;
+}
+
+function primary(code: string): ExprCode {
+    return {code, prec: Prec.Primary};
+}
+
+function parenthesize(expr: ExprCode, prec: Prec): string {
+    return (expr.prec < prec) ? `(${expr.code})`
+                              : expr.code;
+}
+
+function flatten<T>(arrays: Array<Array<T>>): Array<T> {
+    return [].concat(...arrays);
+}
+
+function isFunctionDeclaration(node: any): boolean {
+    return (node instanceof TS.EagerFunctionDeclaration) ||
+           (node instanceof TS.LazyFunctionDeclaration);
+}
+
+/* Whether a statement ends with an `if` with no `else`,
+ * which would take an `else` following the statement.
+ */
+function endsWithIfWithoutElse(stmt: TS.Statement)
+  : boolean
+{
+    if (stmt instanceof TS.IfStatement) {
+        return (stmt.alternate === null) ||
+               endsWithIfWithoutElse(stmt.alternate);
+    }
+    if ((stmt instanceof TS.ForStatement) ||
+        (stmt instanceof TS.ForInStatement) ||
+        (stmt instanceof TS.ForOfStatement) ||
+        (stmt instanceof TS.WhileStatement) ||
+        (stmt instanceof TS.WithStatement) ||
+        (stmt instanceof TS.LabelledStatement))
+    {
+        return endsWithIfWithoutElse(stmt.body);
+    }
+    return false;
+}
+
+function isIdentifierChar(c: string): boolean {
+    return (c.match(/[\w$\\]/) !== null) ||
+           (c.charCodeAt(0) > 0x7f);
+}
+
+/* Join two tokens, with a space between them only if
+ * they would otherwise run together, or form a comment.
+ */
+function joinTokens(a: string, b: string): string {
+    return needsSpace(a, b) ? `${a} ${b}` : a + b;
+}
+
+/* Whether two tokens need a space between them.  A token
+ * other than the `/` operator which ends with a `/` is
+ * (or ends with) a regexp literal without flags, which
+ * would take the start of an identifier as its flags.
+ */
+function needsSpace(a: string, b: string): boolean {
+    if ((a.length === 0) || (b.length === 0)) {
+        return false;
+    }
+    const x = a[a.length - 1];
+    const y = b[0];
+    return (isIdentifierChar(x) && isIdentifierChar(y)) ||
+           ((x === y) && ((x === '+') || (x === '-') ||
+                          (x === '/'))) ||
+           ((x === '/') && (a !== '/') &&
+            isIdentifierChar(y)) ||
+           ((x === '<') && b.startsWith('!--'));
+}
+
+/* Format a (non-negative) number literal, as briefly as
+ * possible when minifying.
+ */
+function numberToJs(value: number, minify: boolean)
+  : string
+{
+    assert(value >= 0, `Bad number literal ${value}`);
+    let str = String(value);
+    if (! minify) {
+        return str;
+    }
+    str = str.replace('e+', 'e').replace(/^0\./, '.');
+    const zeros = str.match(/^([0-9]+?)(000+)$/);
+    if (zeros !== null) {
+        str = `${zeros[1]}e${zeros[2].length}`;
+    }
+    return str;
+}
+
+/* Quote a string, with whichever quote needs fewer
+ * escapes.
+ */
+function quoteString(value: string): string {
+    const singles = value.split("'").length;
+    const doubles = value.split('"').length;
+    const quote = (doubles > singles) ? "'" : '"';
+
+    let out = quote;
+    for (let i = 0; i < value.length; i++) {
+        const c = value[i];
+        const code = value.charCodeAt(i);
+        if ((c === quote) || (c === '\\')) {
+            out += `\\${c}`;
+        } else if (c === '\n') {
+            out += '\\n';
+        } else if (c === '\r') {
+            out += '\\r';
+        } else if (c === '\t') {
+            out += '\\t';
+        } else if ((code < 0x20) || (code === 0x7f)) {
+            out += '\\x' + hex(code, 2);
+        } else if ((code === 0x2028) || (code === 0x2029)) {
+            out += '\\u' + hex(code, 4);
+        } else if ((code >= 0xD800) && (code <= 0xDFFF)) {
+            // Keep surrogate pairs, but escape lone
+            // surrogates, which have no encoding.
+            const next = value.charCodeAt(i + 1);
+            if ((code <= 0xDBFF) &&
+                (next >= 0xDC00) && (next <= 0xDFFF))
+            {
+                out += value.substr(i, 2);
+                i++;
+            } else {
+                out += '\\u' + hex(code, 4);
+            }
+        } else {
+            out += c;
+        }
+    }
+    return out + quote;
+}
+
+/* Quote the raw text of a directive, which is kept as
+ * written, with a quote it does not use unescaped.
+ */
+function quoteRaw(raw: string): string {
+    let unescapedDouble = false;
+    for (let i = 0; i < raw.length; i++) {
+        if (raw[i] === '\\') {
+            i++;
+        } else if (raw[i] === '"') {
+            unescapedDouble = true;
+        }
+    }
+    return unescapedDouble ? `'${raw}'` : `"${raw}"`;
+}
+
+function hex(code: number, width: number): string {
+    return code.toString(16).padStart(width, '0');
+}
@@ -0,0 +1,250 @@
+
+import * as assert from 'assert';
+
+import {MemoryByteSink} from './data_sink';
+import {jsStringToWtf8Bytes, wtf8BytesToJsString}
+    from './wtf8';
+
+/**
+ * The container wraps the output of the entropy coder
+ * so that a compressed file carries everything needed
+ * to decode it, except (optionally) the model itself.
+ *
+ * Layout (all `varuint`s are LEB128):
+ *
+ *      magic           8 bytes, `\x89BINAST\n`
+ *      version         varuint
+ *      headerLength    varuint
+ *      header          WTF-8 JSON of `ContainerHeader`
+ *      numSections     varuint
+ *      sections        numSections times:
+ *          tag             4 ASCII bytes
+ *          length          varuint
+ *          data            length bytes
+ *
+ * Unknown sections are preserved but otherwise ignored,
+ * so new ones can be added without bumping the version.
+ */
+export const CONTAINER_MAGIC: ReadonlyArray<number> =
+    Object.freeze([0x89, 0x42, 0x49, 0x4E,
+                   0x41, 0x53, 0x54, 0x0A]);
+
+export const CONTAINER_VERSION: number = 1;
+
+/** The range-coded tree stream. */
+export const SECTION_TREE: string = 'TREE';
+
+/** The per-file string table (see `string_section.ts`). */
+export const SECTION_STRINGS: string = 'STRS';
+
+/** The lazy function sections (see `lazy_section.ts`). */
+export const SECTION_LAZY: string = 'LAZY';
+
+/** An embedded model bundle (see `model_bundle.ts`). */
+export const SECTION_MODEL: string = 'MODL';
+
+/**
+ * Describes which result-dir tables a model was built
+ * from.  When the model is neither embedded nor given as
+ * a model bundle, the decoder loads it from these
+ * subpaths.
+ */
+export interface ModelDescriptor {
+    readonly pathSuffix: string;
+    readonly suffixLength: number;
+    readonly stringWindow: string;
+    readonly windowSize: number;
+    readonly globalStrings: string;
+    readonly globalStringsLimit: number;
+    readonly numberStats: string;
+    readonly stringRefs: string;
+}
+
+/**
+ * Parameters for adaptive probability tables (see
+ * `AdaptiveProbTable`).
+ */
+export interface AdaptiveOptions {
+    readonly increment: number;
+    readonly limit: number;
+    readonly priorMass: number;
+}
+
+export interface ContainerHeader {
+    // Fingerprint of the schema the file was encoded
+    // against (see `TreeSchema.fingerprint`).  Decoding
+    // with any other schema is refused.
+    readonly schema: string;
+    readonly model: ModelDescriptor;
+
+    // Content id of the model (see `modelId`).  Decoding
+    // with any other model is refused.
+    readonly modelId: string;
+
+    // Name of the root iface, `Script` or `Module`.  The
+    // root is not coded in the tree stream.
+    readonly root: string;
+
+    // Null if the tree was coded with static tables.
+    readonly adaptive: AdaptiveOptions|null;
+}
+
+export class Container {
+    readonly version: number;
+    readonly header: ContainerHeader;
+    readonly sections: Map<string, Uint8Array>;
+
+    constructor(header: ContainerHeader,
+                sections: Map<string, Uint8Array>,
+                version: number = CONTAINER_VERSION)
+    {
+        for (let tag of sections.keys()) {
+            assert(tag.match(/^[A-Z]{4}$/),
+                   `Bad section tag ${tag}`);
+        }
+        this.version = version;
+        this.header = header;
+        this.sections = sections;
+        Object.freeze(this);
+    }
+
+    hasSection(tag: string): boolean {
+        return this.sections.has(tag);
+    }
+
+    getSection(tag: string): Uint8Array {
+        const data = this.sections.get(tag);
+        if (! data) {
+            throw new Error(`Missing section ${tag}`);
+        }
+        return data;
+    }
+
+    encode(): Uint8Array {
+        const sink = new MemoryByteSink();
+        sink.write(CONTAINER_MAGIC as Array<number>);
+        sink.write(encodeVarUint(this.version));
+
+        const header = jsStringToWtf8Bytes(
+                            JSON.stringify(this.header));
+        sink.write(encodeVarUint(header.length), header);
+
+        sink.write(encodeVarUint(this.sections.size));
+        this.sections.forEach((data, tag) => {
+            for (let i = 0; i < 4; i++) {
+                sink.write(tag.charCodeAt(i));
+            }
+            sink.write(encodeVarUint(data.length), data);
+        });
+        return sink.extractBytes();
+    }
+
+    static decode(bytes: Uint8Array): Container {
+        const reader = new ByteReader(bytes);
+
+        const magic = reader.readBytes(
+                            CONTAINER_MAGIC.length);
+        if (! CONTAINER_MAGIC.every((b, i) => {
+            return magic[i] === b;
+        })) {
+            throw new Error('Not a BinAST container.');
+        }
+
+        const version = reader.readVarUint();
+        if (version !== CONTAINER_VERSION) {
+            throw new Error(`Unsupported container` +
+                            ` version ${version}.`);
+        }
+
+        const headerBytes = reader.readBytes(
+                                reader.readVarUint());
+        const header = JSON.parse(
+                    wtf8BytesToJsString(headerBytes));
+        assert(typeof(header.schema) === 'string');
+        assert(header.model instanceof Object);
+        assert(typeof(header.modelId) === 'string');
+        assert(typeof(header.root) === 'string');
+
+        const sections = new Map<string, Uint8Array>();
+        const numSections = reader.readVarUint();
+        for (let i = 0; i < numSections; i++) {
+            const tag = String.fromCharCode(
+                            ... reader.readBytes(4));
+            const data = reader.readBytes(
+                                reader.readVarUint());
+            if (sections.has(tag)) {
+                throw new Error(`Duplicate section ${tag}`);
+            }
+            sections.set(tag, data);
+        }
+        if (! reader.atEnd()) {
+            throw new Error('Trailing bytes after' +
+                            ' container sections.');
+        }
+
+        return new Container(header as ContainerHeader,
+                             sections, version);
+    }
+}
+
+export function encodeVarUint(value: number)
+  : Array<number>
+{
+    assert(Number.isInteger(value) && (value >= 0) &&
+           (value <= Number.MAX_SAFE_INTEGER));
+    const bytes = new Array<number>();
+    let rest = value;
+    do {
+        const low = rest % 0x80;
+        rest = Math.floor(rest / 0x80);
+        bytes.push((rest > 0) ? (low | 0x80) : low);
+    } while (rest > 0);
+    return bytes;
+}
+
+export class ByteReader {
+    readonly bytes: Uint8Array;
+    offset: number;
+
+    constructor(bytes: Uint8Array) {
+        this.bytes = bytes;
+        this.offset = 0;
+    }
+
+    atEnd(): boolean {
+        return this.offset >= this.bytes.length;
+    }
+
+    readByte(): number {
+        if (this.atEnd()) {
+            throw new Error('Unexpected end of data.');
+        }
+        return this.bytes[this.offset++];
+    }
+
+    readBytes(length: number): Uint8Array {
+        const end = this.offset + length;
+        if (end > this.bytes.length) {
+            throw new Error('Unexpected end of data.');
+        }
+        const result = this.bytes.subarray(this.offset, end);
+        this.offset = end;
+        return result;
+    }
+
+    readVarUint(): number {
+        let value: number = 0;
+        let scale: number = 1;
+        for (;;) {
+            const b = this.readByte();
+            value += (b & 0x7F) * scale;
+            if ((b & 0x80) === 0) {
+                return value;
+            }
+            scale *= 0x80;
+            if (scale > Number.MAX_SAFE_INTEGER) {
+                throw new Error('Varuint too large.');
+            }
+        }
+    }
+}
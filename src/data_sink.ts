@@ -27,7 +27,7 @@ export class MemoryByteSink implements ByteSink {
     written: number;
 
     constructor() {
-        const buf = new Uint8Array(INIT_BUFFER_SIZE);
+        this.buffer = new Uint8Array(INIT_BUFFER_SIZE);
         this.written = 0;
     }
 
@@ -66,6 +66,7 @@ export class MemoryByteSink implements ByteSink {
         for (let i = 0; i < bytes; i++) {
             buf[offset + i] = data[i];
         }
+        this.written += bytes;
 
         return bytes;
     }
@@ -77,12 +78,17 @@ export class MemoryByteSink implements ByteSink {
         if (this.written >= this.buffer.length) {
             this.ensureCapacity(1);
         }
-        assert(this.capacity() > 1);
+        assert(this.capacity() >= 1);
 
-        this.buffer[this.written] = data;
+        this.buffer[this.written++] = data;
         return 1;
     }
 
+    /** Return a copy of the bytes written so far. */
+    extractBytes(): Uint8Array {
+        return this.buffer.slice(0, this.written);
+    }
+
     private capacity(): number {
         return this.buffer.length - this.written;
     }
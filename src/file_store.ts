@@ -1,9 +1,13 @@
 
 import * as assert from 'assert';
 import * as fs from 'fs';
+import * as S from 'binast-schema';
 import * as shift_parser from 'shift-parser';
 
-import {Importer} from './lift_es6';
+import {DEFAULT_LIFT_OPTIONS, Importer, LiftError,
+        LiftOptions}
+    from './lift_es6';
+import {SourceLocations} from './source_location';
 import * as TS from './typed_schema';
 
 import {FileStringSink, FileByteSink}
@@ -12,6 +16,64 @@ import {FileStringSink, FileByteSink}
 import {gzipFile, brotliFile}
     from './the_competition';
 
+/** Files that are lifted and analyzed. */
+export const SOURCE_FILE_PATTERN: RegExp = /\.m?js$/;
+
+/** Files that are always parsed as modules. */
+export const MODULE_FILE_PATTERN: RegExp = /\.mjs$/;
+
+/** A lifted file, and the source spans of its nodes. */
+export interface LiftedFile {
+    readonly program: TS.Program;
+
+    // Only kept with the `locations` lift option.
+    readonly locations: SourceLocations|null;
+}
+
+/**
+ * Parse and lift source text, as a script or a module.
+ * This is how files are lifted, and how generated code
+ * is lifted back to be checked.
+ */
+export function liftSource(str: string, isModule: boolean,
+                           options: LiftOptions)
+  : LiftedFile
+{
+    if (! options.locations) {
+        const astJson = isModule
+            ? shift_parser.parseModule(str)
+            : shift_parser.parseScript(str);
+        const importer = new Importer(options);
+        return {
+            program: importer.liftProgram(astJson),
+            locations: null
+        };
+    }
+
+    const {tree, locations} = isModule
+        ? shift_parser.parseModuleWithLocation(str)
+        : shift_parser.parseScriptWithLocation(str);
+    const importer = new Importer(options, locations);
+    return {
+        program: importer.liftProgram(tree),
+        locations: importer.locations
+    };
+}
+
+/**
+ * Build typed nodes when reading trees back generically
+ * (see `S.TreeJsonCodec` and `S.Migration`).
+ */
+export function makeTypedInstance(iface: S.Iface,
+                                  fields: S.FieldValues)
+  : S.Instance
+{
+    const cls = TS[iface.name.name];
+    assert(cls && (typeof(cls.make) === 'function'),
+           `No typed class for ${iface.name.name}`);
+    return cls.make(fields);
+}
+
 /**
  * A simple API for treating a directory of files
  * as a map from 
@@ -54,6 +116,11 @@ export class FileStore {
         });
     }
 
+    hasFile(subpath: string): boolean {
+        assert(this.isValidSubpath(subpath));
+        return this.filePaths.has(subpath);
+    }
+
     readBytes(subpath: string): Uint8Array {
         assert(this.isValidSubpath(subpath));
         if (! this.filePaths.has(subpath)) {
@@ -93,11 +160,49 @@ export class FileStore {
         }
     }
 
-    readAst(subpath: string): TS.Script {
+    readAst(subpath: string,
+            options: LiftOptions = DEFAULT_LIFT_OPTIONS)
+      : TS.Program
+    {
+        return this.liftFile(subpath, options).program;
+    }
+
+    /**
+     * Parse and lift a file.  With the `locations` lift
+     * option, the source spans of its nodes are kept, and
+     * errors lifting it are reported at `file:line:col`.
+     */
+    liftFile(subpath: string,
+             options: LiftOptions = DEFAULT_LIFT_OPTIONS)
+      : LiftedFile
+    {
         const str = this.readString(subpath);
-        const astJson = shift_parser.parseScript(str);
-        const importer = new Importer();
-        return importer.liftScript(astJson);
+        const isModule = options.modules ||
+                         !!subpath.match(MODULE_FILE_PATTERN);
+        try {
+            return liftSource(str, isModule, options);
+        } catch (err) {
+            if (err instanceof LiftError) {
+                throw err.inFile(subpath);
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Read a tree written with `writeTree`, without
+     * parsing and lifting its source again.
+     */
+    readTree(subpath: string, schema: S.TreeSchema)
+      : TS.Program
+    {
+        const codec = new S.TreeJsonCodec(schema, false,
+                                          makeTypedInstance);
+        const root = codec.fromDocument(this.readJSON(subpath));
+        assert((root instanceof TS.Script) ||
+               (root instanceof TS.Module),
+               `Tree ${subpath} is not a program`);
+        return root as TS.Program;
     }
 
     readLines(subpath: string): Array<string> {
@@ -112,6 +217,30 @@ export class FileStore {
         return JSON.parse(str);
     }
 
+    /**
+     * Read analysis results written with
+     * `writeResultJSON`.  Results computed against any
+     * other schema, or not stamped with one, are refused.
+     */
+    readResultJSON(subpath: string, schema: S.TreeSchema)
+      : any
+    {
+        const json = this.readJSON(subpath);
+        if ((json === null) || (json instanceof Array) ||
+            (typeof(json) !== 'object') ||
+            (typeof(json.schema) !== 'string'))
+        {
+            throw new Error(`Results ${subpath} have no` +
+                            ` schema fingerprint.`);
+        }
+        if (json.schema !== schema.fingerprint) {
+            throw new Error(`Results ${subpath} were` +
+                ` computed against schema ${json.schema},` +
+                ` not ${schema.fingerprint}.`);
+        }
+        return json.results;
+    }
+
     sizeOfFile(subpath: string): number {
         assert(this.isValidSubpath(subpath));
 
@@ -210,6 +339,33 @@ export class FileStore {
                 JSON.stringify(data, null, 2));
     }
 
+    /**
+     * Write analysis results, stamped with the
+     * fingerprint of the schema they were computed
+     * against.
+     */
+    writeResultJSON(subpath: string, schema: S.TreeSchema,
+                    results: any)
+    {
+        this.writeJSON(subpath, {
+            schema: schema.fingerprint,
+            results: results
+        });
+    }
+
+    /**
+     * Write a tree as JSON (see `S.TreeJsonCodec`), in
+     * the compact form if `compact` is set.
+     */
+    writeTree(subpath: string, schema: S.TreeSchema,
+              root: TS.Program, compact: boolean = false)
+    {
+        // Not indented, as trees are deep.
+        const codec = new S.TreeJsonCodec(schema, compact);
+        this.writeString(subpath,
+                JSON.stringify(codec.toDocument(root)));
+    }
+
     writeSinkString(subpath: string,
                     cb: (FileStringSink) => any)
     {
@@ -0,0 +1,72 @@
+
+import * as assert from 'assert';
+
+/**
+ * The IEEE-754 components of a float64.  The mantissa is
+ * split into bytes, most significant first, after
+ * shifting it up by 4 bits so that its 52 bits fill
+ * exactly 7 bytes.  Trailing zero bytes are dropped, as
+ * they are common for "round" binary values.
+ */
+export type Float64Components = {
+    negative: boolean,
+    exponent: number,       // Biased exponent, [0, 2047].
+    mantissa: Array<number>
+};
+
+export const MANTISSA_BYTES: number = 7;
+export const EXPONENT_VALUES: number = 2048;
+
+export function float64ToComponents(value: number)
+  : Float64Components
+{
+    assert(typeof(value) === 'number');
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value);
+
+    const b0 = view.getUint8(0);
+    const b1 = view.getUint8(1);
+    const negative = (b0 & 0x80) !== 0;
+    const exponent = ((b0 & 0x7F) << 4) | (b1 >> 4);
+
+    // Realign the mantissa to start at a byte boundary.
+    const mantissa = new Array<number>();
+    for (let i = 1; i < 8; i++) {
+        const hi = view.getUint8(i) & 0x0F;
+        const lo = (i < 7) ? (view.getUint8(i + 1) >> 4)
+                           : 0;
+        mantissa.push((hi << 4) | lo);
+    }
+    while ((mantissa.length > 0) &&
+           (mantissa[mantissa.length - 1] === 0))
+    {
+        mantissa.pop();
+    }
+
+    return {negative, exponent, mantissa};
+}
+
+export function componentsToFloat64(
+    comps: Float64Components)
+  : number
+{
+    const {negative, exponent, mantissa} = comps;
+    assert(exponent >= 0 && exponent < EXPONENT_VALUES);
+    assert(mantissa.length <= MANTISSA_BYTES);
+
+    const full = new Array<number>(MANTISSA_BYTES);
+    for (let i = 0; i < MANTISSA_BYTES; i++) {
+        full[i] = (i < mantissa.length) ? mantissa[i] : 0;
+    }
+
+    const view = new DataView(new ArrayBuffer(8));
+    view.setUint8(0, (negative ? 0x80 : 0) |
+                     (exponent >> 4));
+    view.setUint8(1, ((exponent & 0x0F) << 4) |
+                     (full[0] >> 4));
+    for (let i = 2; i < 8; i++) {
+        view.setUint8(i, ((full[i - 2] & 0x0F) << 4) |
+                         (full[i - 1] >> 4));
+    }
+    return view.getFloat64(0);
+}
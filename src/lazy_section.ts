@@ -0,0 +1,117 @@
+
+import * as assert from 'assert';
+import * as S from 'binast-schema';
+
+import {MemoryByteSink} from './data_sink';
+import {ByteReader, encodeVarUint} from './container';
+import {STRING_KINDS} from './string_section';
+
+/**
+ * The contents of lazy functions are coded apart from
+ * the tree stream, each in its own lazy section, so that
+ * a decoder can skip them until they are needed.
+ *
+ * Every lazy section is coded from a fresh state (string
+ * caches, adaptive tables and range coder), so it can be
+ * decoded without decoding anything else but the string
+ * table section.  Sections are numbered in the order
+ * their lazy fields are visited, so the sections nested
+ * within section `i` are `i + 1` to `i + numNested`.
+ *
+ * The per-file string tables are shared by all streams.
+ * Each section records which entries of each table its
+ * 'new' string references (including those of nested
+ * sections) take up, so that decoders of other streams
+ * can step over them.
+ *
+ * Layout:
+ *
+ *      count           varuint
+ *      index           count times:
+ *          length          varuint
+ *          numNested       varuint
+ *          strings         for each kind in
+ *                          `STRING_KINDS` order:
+ *              start           varuint
+ *              count           varuint
+ *      data            the coded sections, in order
+ *
+ * The offset of each section within `data` is the sum of
+ * the lengths before it.
+ */
+
+/** Whether a visited location is a `[Lazy]` field. */
+export function isLazyLocation(schema: S.TreeSchema,
+                               loc: S.TreeLocation)
+  : boolean
+{
+    const field = S.locationField(schema, loc);
+    return (field !== null) && field.isLazy;
+}
+
+export interface LazySection {
+    readonly bytes: Uint8Array;
+    readonly numNested: number;
+
+    // By kind, the first string table entry taken up by
+    // the section, and how many it takes up.
+    readonly stringStarts: Map<string, number>;
+    readonly stringCounts: Map<string, number>;
+}
+
+export function encodeLazySection(
+    sections: ReadonlyArray<LazySection>)
+  : Uint8Array
+{
+    const sink = new MemoryByteSink();
+    sink.write(encodeVarUint(sections.length));
+    for (let section of sections) {
+        sink.write(encodeVarUint(section.bytes.length),
+                   encodeVarUint(section.numNested));
+        for (let kind of STRING_KINDS) {
+            const start = section.stringStarts.get(kind);
+            const count = section.stringCounts.get(kind);
+            sink.write(encodeVarUint(start),
+                       encodeVarUint(count));
+        }
+    }
+    for (let section of sections) {
+        sink.write(section.bytes);
+    }
+    return sink.extractBytes();
+}
+
+export function decodeLazySection(bytes: Uint8Array)
+  : Array<LazySection>
+{
+    const reader = new ByteReader(bytes);
+    const count = reader.readVarUint();
+
+    const index = new Array<[number, number,
+                             Map<string, number>,
+                             Map<string, number>]>();
+    for (let i = 0; i < count; i++) {
+        const length = reader.readVarUint();
+        const numNested = reader.readVarUint();
+        assert(i + numNested < count,
+               `Bad nesting for lazy section ${i}.`);
+
+        const stringStarts = new Map<string, number>();
+        const stringCounts = new Map<string, number>();
+        for (let kind of STRING_KINDS) {
+            stringStarts.set(kind, reader.readVarUint());
+            stringCounts.set(kind, reader.readVarUint());
+        }
+        index.push([length, numNested,
+                    stringStarts, stringCounts]);
+    }
+
+    const sections = index.map(entry => {
+        const [length, numNested,
+               stringStarts, stringCounts] = entry;
+        const bytes = reader.readBytes(length);
+        return {bytes, numNested, stringStarts, stringCounts};
+    });
+    assert(reader.atEnd(), 'Trailing lazy section bytes.');
+    return sections;
+}
@@ -6,6 +6,8 @@ import * as S from 'binast-schema';
 
 import * as logger from './logger';
 import * as TS from './typed_schema';
+import {SourceLocations, SourceSpan, formatPosition}
+    from './source_location';
 
 const RS = TS.ReflectedSchema;
 
@@ -26,6 +28,27 @@ class MatchError extends Error {
     }
 }
 
+/**
+ * An error lifting a node, located at the innermost node
+ * around it whose source location is known.
+ */
+export class LiftError extends Error {
+    readonly cause: Error;
+    readonly location: string;
+
+    constructor(cause: Error, location: string) {
+        super(`${location}: ${cause.message}`);
+        this.cause = cause;
+        this.location = location;
+    }
+
+    /** The same error, located within the given file. */
+    inFile(path: string): LiftError {
+        return new LiftError(this.cause,
+                             `${path}:${this.location}`);
+    }
+}
+
 function assertNodeType(node: any, typeStr: string) {
     assert.equal(node.type, typeStr,
                  `Node type ${node.type} != ${typeStr}`);
@@ -66,12 +89,33 @@ function summarizeNode(obj: any): any {
     }
     return result;
 }
+
+function isSimpleParameter(param: TS.Parameter): boolean {
+    return param instanceof TS.BindingIdentifier;
+}
 function nodeShortSummary(obj: any): string {
     return `${obj.type}(${propNames(obj)})`;
 }
 
 let NEXT_SCOPE_ID: number = 1;
 
+/** An error the spec requires to be reported early. */
+class EarlyError extends Error {
+    constructor(message: string) {
+        super(`EarlyError - ${message}`);
+    }
+}
+
+/** Names that may not be used as identifiers in strict
+ * mode code.
+ */
+const STRICT_RESERVED_WORDS: ReadonlySet<string> =
+    new Set([
+        'implements', 'interface', 'let', 'package',
+        'private', 'protected', 'public', 'static',
+        'yield'
+    ]);
+
 type AssertedName = TS.AssertedDeclaredName |
                     TS.AssertedBoundName;
 abstract class BaseScope {
@@ -79,95 +123,144 @@ abstract class BaseScope {
     names: Array<AssertedName>;
     hasDirectEval: boolean;
 
+    // The number of functions enclosing the scope, and
+    // whether its code is strict.  Both are set by the
+    // context when the scope is entered.
+    functionDepth: number;
+    isStrict: boolean;
+
     // Maps identifier names to the index into
     // an appropriate array.
     nameMap: Map<string, number>;
     captureSet: Set<string>;
 
+    // The names bound by function declarations.
+    functionNames: Set<string>;
+
+    // The names used within the scope (or its inner
+    // scopes) which are not resolved yet, mapped to
+    // whether any of the uses is from an inner function.
+    uses: Map<string, boolean>;
+
     constructor() {
         this.id = NEXT_SCOPE_ID++;
         this.names = new Array();
         this.hasDirectEval = false;
+        this.functionDepth = 0;
+        this.isStrict = false;
 
         this.nameMap = new Map();
         this.captureSet = new Set();
+        this.functionNames = new Set();
+        this.uses = new Map();
     }
 
-    addName(nameEntry: AssertedName) {
+    addName(nameEntry: AssertedName,
+            isFunction: boolean = false)
+    {
         const name = nameEntry.name;
         const nameStr = name.name;
         assert(typeof(nameStr) == 'string')
-        // JS allows shadowing names
-        // TODO: Find out if this is ok in strict mode.
-        //   If it's not, then this needs to be checked
-        //   when strict mode is on.
         const existingIdx = this.nameMap.get(nameStr);
-        if (existingIdx) {
+        if (existingIdx !== undefined) {
             const existing = this.names[existingIdx];
             assert(nameEntry.constructor ===
                         existing.constructor);
 
-            // Bound names are allowed to collide.
-            // FIXME: Forbidden in strict mode?
-            if (nameEntry instanceof TS.AssertedBoundName) {
-                return;
-            }
-
-            assert(nameEntry instanceof
-                    TS.AssertedDeclaredName);
-
-            // Lets and Consts collide always.
-            if (nameEntry.kind !==
-                TS.AssertedDeclaredKind.KwVar)
-            {
-                throw new Error("Name collision. [FIXME]");
-            }
-
-            // Vars collide with existing lets and consts.
-            assert(this.names[existingIdx]
-                    instanceof TS.AssertedDeclaredName);
-
-            const existingName = this.names[existingIdx] as
-                                   TS.AssertedDeclaredName;
-
-            if (existingName.kind !==
-                TS.AssertedDeclaredKind.KwVar)
-            {
-                throw new Error("Name collision. [FIXME]");
-            }
-
+            this.checkRedeclaration(nameEntry, existing,
+                isFunction && this.functionNames.has(nameStr));
             return;
         }
 
         const idx = this.names.length;
         this.names.push(nameEntry);
         this.nameMap.set(nameStr, idx);
+        if (isFunction) {
+            this.functionNames.add(nameStr);
+        }
     }
 
     doesBindName(name: TS.Identifier): boolean {
         return this.nameMap.get(name.name) !== undefined;
     }
 
-    /** Try to capture the use of the given name with this
-     * scope.  Return whether successful. */
-    findOrCaptureUse(name: TS.Identifier, capture: boolean)
-      : boolean
-    {
-        const nameStr = name.name;
-        if (this.doesBindName(name)) {
-            if (capture && !this.captureSet.has(nameStr)) {
-                this.captureSet.add(nameStr);
-                this.markCaptured(nameStr);
+    /** Note a use of the given name within this scope,
+     * made from an inner function if `fromInnerFunction`.
+     */
+    noteUse(name: string, fromInnerFunction: boolean) {
+        const seen = this.uses.get(name) === true;
+        this.uses.set(name, seen || fromInnerFunction);
+    }
+
+    /** Resolve the uses noted so far against the names
+     * bound by this scope.  Names used from inner
+     * functions are captured, as are all names if the
+     * scope has a direct eval.  Uses of other names are
+     * left for the enclosing scope.
+     */
+    resolveUses() {
+        for (let [name, fromInnerFunction] of this.uses) {
+            if (! this.nameMap.has(name)) {
+                continue;
             }
-            return true;
+            if (fromInnerFunction) {
+                this.capture(name);
+            }
+            this.uses.delete(name);
+        }
+        if (this.hasDirectEval) {
+            for (let name of this.nameMap.keys()) {
+                this.capture(name);
+            }
+        }
+    }
+
+    private capture(name: string) {
+        if (! this.captureSet.has(name)) {
+            this.captureSet.add(name);
+            this.markCaptured(name);
         }
-        return false;
     }
 
+    /** Check that a name may be bound again, as
+     * `nameEntry`, when it is bound as `existing` already.
+     * `bothFunctions` is whether both bindings are function
+     * declarations.
+     */
+    protected abstract checkRedeclaration(
+        nameEntry: AssertedName,
+        existing: AssertedName,
+        bothFunctions: boolean);
+
     protected abstract markCaptured(name: string);
 }
 
 abstract class DeclaredScope extends BaseScope {
+    protected checkRedeclaration(
+        nameEntry: AssertedName,
+        existing: AssertedName,
+        bothFunctions: boolean)
+    {
+        const name = nameEntry as TS.AssertedDeclaredName;
+        const prior = existing as TS.AssertedDeclaredName;
+
+        // Vars may be declared any number of times.
+        if ((name.kind === TS.AssertedDeclaredKind.KwVar) &&
+            (prior.kind === TS.AssertedDeclaredKind.KwVar))
+        {
+            return;
+        }
+
+        // Outside of strict mode code, blocks may declare
+        // the same function more than once (Annex B.3.3).
+        if (bothFunctions && !this.isStrict) {
+            return;
+        }
+
+        throw new EarlyError(
+            `Redeclaration of \`${name.name.name}\`.`);
+    }
+
     protected markCaptured(name: string) {
         const idx = this.nameMap.get(name);
         assert(this.names[idx] instanceof
@@ -186,6 +279,7 @@ abstract class DeclaredScope extends BaseScope {
     protected declNames()
       : ReadonlyArray<TS.AssertedDeclaredName>
     {
+        this.resolveUses();
         assert(this.names.every(n => {
             return n instanceof TS.AssertedDeclaredName;
         }));
@@ -196,6 +290,15 @@ abstract class DeclaredScope extends BaseScope {
 }
 
 abstract class BoundScope extends BaseScope {
+    protected checkRedeclaration(
+        nameEntry: AssertedName,
+        existing: AssertedName,
+        bothFunctions: boolean)
+    {
+        throw new EarlyError(
+            `Duplicate binding of \`${nameEntry.name.name}\`.`);
+    }
+
     protected markCaptured(name: string) {
         const idx = this.nameMap.get(name);
         assert(this.names[idx] instanceof
@@ -212,6 +315,7 @@ abstract class BoundScope extends BaseScope {
     protected boundNames()
       : ReadonlyArray<TS.AssertedBoundName>
     {
+        this.resolveUses();
         assert(this.names.every(n => {
             return n instanceof TS.AssertedBoundName;
         }));
@@ -222,8 +326,33 @@ abstract class BoundScope extends BaseScope {
 }
 
 class BlockScope extends DeclaredScope {
+    // Names declared by `var` within the block.  They are
+    // bound by the enclosing var scope, but may not also
+    // be declared lexically in the block.
+    varNames: Set<string>;
+
     constructor() {
         super();
+        this.varNames = new Set();
+    }
+
+    addName(nameEntry: AssertedName,
+            isFunction: boolean = false)
+    {
+        const nameStr = nameEntry.name.name;
+        if (this.varNames.has(nameStr)) {
+            throw new EarlyError(
+                `Redeclaration of \`${nameStr}\`.`);
+        }
+        super.addName(nameEntry, isFunction);
+    }
+
+    noteVarName(name: TS.Identifier) {
+        if (this.doesBindName(name)) {
+            throw new EarlyError(
+                `Redeclaration of \`${name.name}\`.`);
+        }
+        this.varNames.add(name.name);
     }
 
     extractBlockScope(): TS.AssertedBlockScope {
@@ -249,9 +378,24 @@ class ScriptGlobalScope extends DeclaredScope {
     }
 }
 
+/** Whether a function is async, a generator, or both. */
+interface FunctionKind {
+    readonly isAsync: boolean;
+    readonly isGenerator: boolean;
+}
+
+const SYNC_FUNCTION: FunctionKind = Object.freeze({
+    isAsync: false,
+    isGenerator: false
+});
+
 class VarScope extends DeclaredScope {
-    constructor() {
+    // The kind of function whose body this is.
+    readonly kind: FunctionKind;
+
+    constructor(kind: FunctionKind) {
         super();
+        this.kind = kind;
     }
 
     extractVarScope(): TS.AssertedVarScope {
@@ -263,11 +407,30 @@ class VarScope extends DeclaredScope {
 }
 
 class ParameterScope extends BoundScope {
+    // Whether the parameter names must be unique whatever
+    // the parameter list, as for methods and arrow
+    // functions.
+    readonly isUnique: boolean;
+
     isSimpleParameterList: boolean;
+    hasDuplicateNames: boolean;
 
-    constructor() {
+    constructor(isUnique: boolean) {
         super();
+        this.isUnique = isUnique;
         this.isSimpleParameterList = false;
+        this.hasDuplicateNames = false;
+    }
+
+    protected checkRedeclaration(
+        nameEntry: AssertedName,
+        existing: AssertedName,
+        bothFunctions: boolean)
+    {
+        // Whether duplicates are allowed depends on the
+        // whole parameter list, so they are only noted
+        // here (see `Context.noteParameterList`).
+        this.hasDuplicateNames = true;
     }
 
     extractParameterScope(): TS.AssertedParameterScope {
@@ -293,11 +456,53 @@ class BoundNamesScope extends BoundScope {
     }
 }
 
+/**
+ * The binding of the name of a function expression,
+ * which is only visible within the function itself.  The
+ * schema only records whether it is captured.
+ */
+class FunctionNameScope extends BoundScope {
+    constructor() {
+        super();
+    }
+
+    extractIsNameCaptured(): boolean {
+        return this.boundNames().some(n => n.isCaptured);
+    }
+}
+
+/**
+ * The `this` binding of a function other than an arrow
+ * function.  Arrow functions use the `this` of their
+ * enclosing function, which captures it if any of them
+ * refers to it.
+ */
+class ThisScope {
+    isCaptured: boolean;
+    arrowDepth: number;
+
+    constructor() {
+        this.isCaptured = false;
+        this.arrowDepth = 0;
+    }
+}
+
+/** The strictness of a script, module or function. */
+interface Strictness {
+    readonly isStrict: boolean;
+
+    // Whether the code has a "use strict" directive of
+    // its own.
+    readonly hasUseStrict: boolean;
+}
+
 enum ScopeBindMode {
     None = "none",
     Var = "var",
     Let = "let",
     Const = "const",
+    Function = "function",
+    FunctionName = "function_name",
     Parameter = "parameter",
     CatchClause = "catch_clause"
 }
@@ -305,10 +510,16 @@ enum ScopeBindMode {
 class Context {
     scopeStack: Array<BaseScope>;
     bindStack: Array<ScopeBindMode>;
+    thisStack: Array<ThisScope>;
+    strictStack: Array<Strictness>;
+    functionDepth: number;
 
     constructor() {
         this.scopeStack = new Array();
         this.bindStack = new Array();
+        this.thisStack = new Array();
+        this.strictStack = new Array();
+        this.functionDepth = 0;
     }
 
     atTopScope(): boolean {
@@ -326,23 +537,43 @@ class Context {
         return this.enterScope<ScriptGlobalScope, T>(
             new ScriptGlobalScope(), f);
     }
-    enterVarScope<T>(f: (VarScope) => T): T {
+    enterVarScope<T>(kind: FunctionKind,
+                     f: (VarScope) => T)
+      : T
+    {
         return this.enterScope<VarScope, T>(
-            new VarScope(), f);
+            new VarScope(kind), f);
     }
     enterParameterScope<T>(f: (ParameterScope) => T): T {
         return this.enterScope<ParameterScope, T>(
-            new ParameterScope(), f);
+            new ParameterScope(false), f);
+    }
+    enterUniqueParameterScope<T>(
+        f: (ParameterScope) => T)
+      : T
+    {
+        return this.enterScope<ParameterScope, T>(
+            new ParameterScope(true), f);
     }
     enterBoundNamesScope<T>(f: (BoundNamesScope) => T): T {
         return this.enterScope<BoundNamesScope, T>(
             new BoundNamesScope(), f);
     }
+    enterFunctionNameScope<T>(
+        f: (FunctionNameScope) => T)
+      : T
+    {
+        return this.enterScope<FunctionNameScope, T>(
+            new FunctionNameScope(), f);
+    }
     private enterScope<TS extends BaseScope, T>(
         scope: TS,
         f: (TS) => T
     ): T
     {
+        scope.functionDepth = this.functionDepth;
+        scope.isStrict = this.isStrict();
+
         this.scopeStack.push(scope);
         let result;
         try {
@@ -350,9 +581,171 @@ class Context {
         } finally {
             this.scopeStack.pop();
         }
+        this.exitScope(scope);
         return result;
     }
 
+    /* Resolve the uses of names within a scope that was
+     * just exited, and hand those it does not bind on to
+     * the enclosing scope.
+     */
+    private exitScope(scope: BaseScope) {
+        scope.resolveUses();
+        if (this.scopeStack.length === 0) {
+            return;
+        }
+
+        const parent = this.scopeStack[
+                            this.scopeStack.length - 1];
+        // Names are captured when used from within a
+        // function other than the one binding them.
+        const leavesFunction =
+            (scope.functionDepth !== parent.functionDepth);
+        for (let [name, fromInnerFunction] of scope.uses) {
+            parent.noteUse(name,
+                           fromInnerFunction || leavesFunction);
+        }
+
+        // A direct eval may use any name in scope.
+        if (scope.hasDirectEval) {
+            parent.hasDirectEval = true;
+        }
+    }
+
+    enterThisScope<T>(f: (ThisScope) => T): T {
+        const scope = new ThisScope();
+        this.thisStack.push(scope);
+        let result;
+        try {
+            result = this.enterFunction(() => f(scope));
+        } finally {
+            this.thisStack.pop();
+        }
+        return result;
+    }
+    enterArrowFunction<T>(f: () => T): T {
+        // At the top level, `this` is not bound by any
+        // function, so there is nothing to capture.
+        if (this.thisStack.length === 0) {
+            return this.enterFunction(f);
+        }
+        const scope = this.thisStack[
+                            this.thisStack.length - 1];
+        scope.arrowDepth++;
+        let result;
+        try {
+            result = this.enterFunction(f);
+        } finally {
+            scope.arrowDepth--;
+        }
+        return result;
+    }
+    private enterFunction<T>(f: () => T): T {
+        this.functionDepth++;
+        let result;
+        try {
+            result = f();
+        } finally {
+            this.functionDepth--;
+        }
+        return result;
+    }
+
+    /* Enter a script, or the body of a function, with the
+     * given directives (null for the expression body of
+     * an arrow function).  It is strict if the code it is
+     * in is, or if it has a "use strict" directive.
+     */
+    enterDirectives<T>(
+        directives: ReadonlyArray<TS.Directive>|null,
+        f: () => T)
+      : T
+    {
+        const hasUseStrict = (directives !== null) &&
+            directives.some(d => d.rawValue === 'use strict');
+        return this.enterStrictness({
+            isStrict: hasUseStrict || this.isStrict(),
+            hasUseStrict
+        }, f);
+    }
+    /* Enter code which is always strict: modules and
+     * classes.
+     */
+    enterStrictCode<T>(f: () => T): T {
+        return this.enterStrictness({
+            isStrict: true,
+            hasUseStrict: false
+        }, f);
+    }
+    private enterStrictness<T>(strictness: Strictness,
+                               f: () => T)
+      : T
+    {
+        this.strictStack.push(strictness);
+        let result;
+        try {
+            result = f();
+        } finally {
+            this.strictStack.pop();
+        }
+        return result;
+    }
+
+    isStrict(): boolean {
+        const len = this.strictStack.length;
+        return (len > 0) &&
+               this.strictStack[len - 1].isStrict;
+    }
+
+    /* Note the use of `this`, which is captured when used
+     * within an arrow function.
+     */
+    noteUseThis() {
+        if (this.thisStack.length === 0) {
+            return;
+        }
+        const scope = this.thisStack[
+                            this.thisStack.length - 1];
+        if (scope.arrowDepth > 0) {
+            scope.isCaptured = true;
+        }
+    }
+
+    /* Note a direct call to `eval`.  The evaluated code
+     * may use any name in scope, and `this`, so the
+     * enclosing scopes capture all of their names.
+     */
+    noteDirectEval() {
+        assert(this.scopeStack.length > 0);
+        this.scopeStack[this.scopeStack.length - 1]
+            .hasDirectEval = true;
+
+        if (this.thisStack.length > 0) {
+            this.thisStack[this.thisStack.length - 1]
+                .isCaptured = true;
+        }
+    }
+
+    /* Check that a `with` statement is not strict mode
+     * code.
+     */
+    noteWithStatement() {
+        if (this.isStrict()) {
+            throw new EarlyError(
+                '`with` statement in strict mode code.');
+        }
+    }
+
+    /* Check that `delete` of a plain identifier is not
+     * strict mode code.
+     */
+    noteDeleteName(name: TS.Identifier) {
+        if (this.isStrict()) {
+            throw new EarlyError(
+                `\`delete ${name.name}\` in strict mode code.`);
+        }
+    }
+
     bindDeclKind<T>(kind: TS.VariableDeclarationKind,
                     f: () => T)
       : T
@@ -378,6 +771,12 @@ class Context {
     bindConsts<T>(f: () => T): T {
         return this.bind<T>(ScopeBindMode.Const, f);
     }
+    bindFunctions<T>(f: () => T): T {
+        return this.bind<T>(ScopeBindMode.Function, f);
+    }
+    bindFunctionName<T>(f: () => T): T {
+        return this.bind<T>(ScopeBindMode.FunctionName, f);
+    }
     bindParameters<T>(f: () => T): T {
         return this.bind<T>(ScopeBindMode.Parameter, f);
     }
@@ -391,10 +790,79 @@ class Context {
         return result;
     }
 
+    /* Note whether the parameter list of the innermost
+     * parameter scope is simple: plain identifiers only,
+     * with no initializers or rest parameter.
+     */
+    noteParameterList(isSimple: boolean) {
+        const found = this.eachScope(scope => {
+            if (! (scope instanceof ParameterScope)) {
+                return;
+            }
+            scope.isSimpleParameterList = isSimple;
+
+            // Duplicate names are only allowed in simple
+            // parameter lists of non-strict functions.
+            if (scope.hasDuplicateNames &&
+                (scope.isUnique || scope.isStrict ||
+                 !isSimple))
+            {
+                throw new EarlyError(
+                    'Duplicate parameter names.');
+            }
+            return true;
+        });
+        assert(found === true);
+
+        const len = this.strictStack.length;
+        if ((! isSimple) && (len > 0) &&
+            this.strictStack[len - 1].hasUseStrict)
+        {
+            throw new EarlyError(
+                '"use strict" in a function with' +
+                ' non-simple parameters.');
+        }
+    }
+
+    /* Check that `yield` is used within a generator. */
+    noteYield() {
+        const kind = this.functionKind();
+        if ((kind === null) || (! kind.isGenerator)) {
+            throw new EarlyError(
+                '`yield` outside of a generator function.');
+        }
+    }
+
+    /* Check that `await` is used within an async
+     * function.
+     */
+    noteAwait() {
+        const kind = this.functionKind();
+        if ((kind === null) || (! kind.isAsync)) {
+            throw new EarlyError(
+                '`await` outside of an async function.');
+        }
+    }
+
+    /* The kind of the innermost function, or null at the
+     * top level.
+     */
+    private functionKind(): FunctionKind|null {
+        const kind = this.eachScope(scope => {
+            if (scope instanceof VarScope) {
+                return scope.kind;
+            }
+            // Continue to next scope.
+            return;
+        });
+        return kind || null;
+    }
+
     noteBoundName(name: TS.Identifier) {
         assert(this.bindStack.length > 0);
         const bindMode = this.bindStack[
                             this.bindStack.length - 1];
+        this.checkBoundName(name, bindMode);
         switch (bindMode) {
           case ScopeBindMode.Var:
             return this.noteDeclaredVar(name);
@@ -405,6 +873,12 @@ class Context {
           case ScopeBindMode.Const:
             return this.noteDeclaredConst(name);
 
+          case ScopeBindMode.Function:
+            return this.noteDeclaredFunction(name);
+
+          case ScopeBindMode.FunctionName:
+            return this.noteBoundFunctionName(name);
+
           case ScopeBindMode.Parameter:
             return this.noteBoundParameter(name);
 
@@ -417,6 +891,39 @@ class Context {
         }
     }
 
+    /* Check the early errors for binding a name. */
+    private checkBoundName(name: TS.Identifier,
+                           bindMode: ScopeBindMode)
+    {
+        const nameStr = name.name;
+        if (this.isStrict() &&
+            ((nameStr === 'eval') ||
+             (nameStr === 'arguments')))
+        {
+            throw new EarlyError(
+                `\`${nameStr}\` bound in strict mode code.`);
+        }
+        if ((nameStr === 'let') &&
+            ((bindMode === ScopeBindMode.Let) ||
+             (bindMode === ScopeBindMode.Const)))
+        {
+            throw new EarlyError(
+                '`let` declared lexically.');
+        }
+        this.checkIdentifier(name);
+    }
+
+    /* Check that an identifier is not reserved. */
+    private checkIdentifier(name: TS.Identifier) {
+        if (this.isStrict() &&
+            STRICT_RESERVED_WORDS.has(name.name))
+        {
+            throw new EarlyError(
+                `\`${name.name}\` is reserved in` +
+                ` strict mode code.`);
+        }
+    }
+
     private idToIdName(id: TS.Identifier)
       : TS.IdentifierName
     {
@@ -429,12 +936,37 @@ class Context {
 
     private noteDeclared(name: TS.Identifier,
                          kind: TS.AssertedDeclaredKind,
-                         classes: Array<Function>)
+                         classes: Array<Function>,
+                         isFunction: boolean = false)
     {
-        const found = this.eachScope(scope => {
+        const isVar = (kind === TS.AssertedDeclaredKind.KwVar);
+        for (let i = this.scopeStack.length - 1; i >= 0;
+             i--)
+        {
+            const scope = this.scopeStack[i];
             if (! classes.some(c => scope instanceof c)) {
+                // Vars are hoisted out of blocks, which
+                // remember them to check for collisions.
+                if (isVar && (scope instanceof BlockScope)) {
+                    scope.noteVarName(name);
+                }
                 // Continue to next scope.
-                return;
+                continue;
+            }
+
+            // Lexical declarations at the top of a
+            // function body or catch clause may not
+            // collide with its parameters.
+            const parent = (i > 0) ? this.scopeStack[i - 1]
+                                   : null;
+            if ((! isVar) &&
+                (parent instanceof BoundScope) &&
+                (parent.functionDepth ===
+                    scope.functionDepth) &&
+                parent.doesBindName(name))
+            {
+                throw new EarlyError(
+                    `Redeclaration of \`${name.name}\`.`);
             }
 
             const declScope = scope as DeclaredScope;
@@ -443,10 +975,10 @@ class Context {
                 kind: kind,
                 isCaptured: false
             });
-            declScope.addName(dn);
-            return true;
-        });
-        assert(found === true,
+            declScope.addName(dn, isFunction);
+            return;
+        }
+        assert(false,
                `Name ${name} not found for kind ${kind}`);
     }
 
@@ -488,6 +1020,30 @@ class Context {
             [VarScope, BlockScope, ScriptGlobalScope]);
     }
 
+    /* Function declarations are scoped like vars at the
+     * top level of a function or script, and like lets in
+     * blocks.
+     */
+    private noteDeclaredFunction(name: TS.Identifier) {
+        assert(this.scopeStack.length > 0);
+        const scope = this.scopeStack[
+                            this.scopeStack.length - 1];
+        if (scope instanceof BlockScope) {
+            this.noteDeclared(name,
+                TS.AssertedDeclaredKind.NonConstLexical,
+                [BlockScope], /* isFunction = */ true);
+        } else {
+            this.noteDeclared(name,
+                TS.AssertedDeclaredKind.KwVar,
+                [VarScope, ScriptGlobalScope],
+                /* isFunction = */ true);
+        }
+    }
+
+    private noteBoundFunctionName(name: TS.Identifier) {
+        this.noteBound(name, [FunctionNameScope]);
+    }
+
     private noteBoundParameter(name: TS.Identifier) {
         this.noteBound(name, [ParameterScope]);
     }
@@ -509,31 +1065,32 @@ class Context {
         return undefined;
     }
 
-    /* Note the use of a name in the current scope context.
-     * Return the scope that binds the name (after marking
-     * it at used if necessary), or return null if the
-     * reference is free.
+    /* Note the use of a name in the current scope
+     * context.  Uses are resolved against the names in
+     * scope as the scopes are exited, so names declared
+     * after their use are found too.
      */
-    noteUseName(name: TS.Identifier): BaseScope|null {
-        let capture: boolean = false;
-
-        const foundScope = this.eachScope(
-          (scope: BaseScope) => {
-            if (scope.findOrCaptureUse(name, capture)) {
-                return scope;
-            }
-
-            // When crossing a VarScope boundary, start
-            // capturing names as we're entering a caller
-            // function's scope.
-            if (!capture && (scope instanceof VarScope)) {
-                capture = true;
-            }
+    noteUseName(name: TS.Identifier) {
+        this.checkIdentifier(name);
+        assert(this.scopeStack.length > 0);
+        this.scopeStack[this.scopeStack.length - 1]
+            .noteUse(name.name, false);
+    }
 
-            // Continue to next scope.
-            return;
-          });
-        return foundScope || null;
+    /* Note the assignment of a name, which may not be
+     * `eval` or `arguments` in strict mode code.
+     */
+    noteAssignName(name: TS.Identifier) {
+        const nameStr = name.name;
+        if (this.isStrict() &&
+            ((nameStr === 'eval') ||
+             (nameStr === 'arguments')))
+        {
+            throw new EarlyError(
+                `\`${nameStr}\` assigned in strict mode` +
+                ` code.`);
+        }
+        this.noteUseName(name);
     }
 }
 
@@ -573,21 +1130,105 @@ export class Registry<T> {
     }
 }
 
+export interface LiftOptions {
+    // Lift functions into their lazy variants, whose
+    // contents can be coded separately.
+    readonly lazyFunctions: boolean;
+
+    // Parse every file as a module.  Otherwise only
+    // `.mjs` files are.
+    readonly modules: boolean;
+
+    // Keep the source locations of lifted nodes (see
+    // `Importer.locations`).
+    readonly locations: boolean;
+}
+
+export const DEFAULT_LIFT_OPTIONS: LiftOptions =
+    Object.freeze({
+        lazyFunctions: false,
+        modules: false,
+        locations: false
+    });
+
 export class Importer {
     readonly cx: Context;
     readonly strings: Registry<string>;
     readonly ids: Registry<S.Identifier>;
+    readonly options: LiftOptions;
 
-    constructor() {
+    // The source spans of the lifted statements,
+    // expressions, bindings, assignment targets,
+    // properties and methods, if the parser's locations
+    // are given.
+    readonly locations: SourceLocations|null;
+
+    // The parser's locations of the nodes it produced.
+    private readonly parserLocations:
+        WeakMap<object, SourceSpan>|null;
+
+    constructor(options: LiftOptions = DEFAULT_LIFT_OPTIONS,
+                parserLocations:
+                    WeakMap<object, SourceSpan>|null = null)
+    {
         this.cx = new Context();
         this.strings = new Registry<string>();
         this.ids = new Registry<S.Identifier>();
+        this.options = options;
+        this.parserLocations = parserLocations;
+        this.locations = (parserLocations !== null)
+            ? new SourceLocations()
+            : null;
+    }
+
+    /* Lift a node of the parser's tree with `f`, keeping
+     * its source span for the result.  Errors lifting it
+     * which are not located yet are located at it.
+     */
+    private located<T extends object>(json: any,
+                                      f: () => T)
+      : T
+    {
+        const span = (this.parserLocations !== null)
+            ? this.parserLocations.get(json)
+            : undefined;
+        if (span === undefined) {
+            return f();
+        }
+
+        let result: T;
+        try {
+            result = f();
+        } catch (err) {
+            if (err instanceof LiftError) {
+                throw err;
+            }
+            throw new LiftError(err,
+                                formatPosition(span.start));
+        }
+        if (result !== null) {
+            this.locations.set(result, span);
+        }
+        return result;
     }
 
     //
     // Top level
     //
 
+    liftProgram(json: any): TS.Program {
+        return this.located(json, () => {
+            switch (json.type as string) {
+              case 'Script':
+                return this.liftScript(json);
+              case 'Module':
+                return this.liftModule(json);
+              default:
+                throw new MatchError('Program', json.type);
+            }
+        });
+    }
+
     liftScript(json: any): TS.Script {
         assertNodeType(json, 'Script');
         assert(this.cx.atTopScope());
@@ -596,17 +1237,46 @@ export class Importer {
             (json.directives as Array<any>).map(
                 d => this.liftDirective(d));
 
-        return this.cx.enterScriptGlobalScope(
-            (ss: ScriptGlobalScope) => {
-                const statements =
-                    (json.statements as Array<any>).map(
-                        s => this.liftStatement(s));
+        return this.cx.enterDirectives(directives, () => {
+            return this.cx.enterScriptGlobalScope(
+                (ss: ScriptGlobalScope) => {
+                    const statements =
+                        (json.statements as Array<any>).map(
+                            s => this.liftStatement(s));
 
-                const scope = ss.extractScriptGlobalScope();
+                    const scope =
+                        ss.extractScriptGlobalScope();
 
-                return TS.Script.make({scope, directives,
-                                       statements});
-            });
+                    return TS.Script.make({scope, directives,
+                                           statements});
+                });
+        });
+    }
+
+    liftModule(json: any): TS.Module {
+        assertNodeType(json, 'Module');
+        assert(this.cx.atTopScope());
+
+        const directives =
+            (json.directives as Array<any>).map(
+                d => this.liftDirective(d));
+
+        // Module code is not in any function, but its
+        // declarations are scoped to the module.  It is
+        // always strict.
+        return this.cx.enterStrictCode(() => {
+            return this.cx.enterVarScope(SYNC_FUNCTION,
+                (vs: VarScope) => {
+                    const items =
+                        (json.items as Array<any>).map(
+                            i => this.liftModuleItem(i));
+
+                    const scope = vs.extractVarScope();
+
+                    return TS.Module.make({scope, directives,
+                                           items});
+                });
+        });
     }
 
     liftDirective(json: any): TS.Directive {
@@ -620,58 +1290,262 @@ export class Importer {
     }
 
     //
-    // Statements
+    // Modules
     //
 
-    liftStatement(json: any): TS.Statement {
+    liftModuleItem(json: any)
+      : (TS.ImportDeclaration | TS.ExportDeclaration |
+         TS.Statement)
+    {
+        return this.located(json, () => {
+            switch (json.type as string) {
+              case 'Import':
+                return this.liftImport(json);
+              case 'ImportNamespace':
+                return this.liftImportNamespace(json);
+              case 'ExportAllFrom':
+                return this.liftExportAllFrom(json);
+              case 'ExportFrom':
+                return this.liftExportFrom(json);
+              case 'ExportLocals':
+                return this.liftExportLocals(json);
+              case 'Export':
+                return this.liftExport(json);
+              case 'ExportDefault':
+                return this.liftExportDefault(json);
+              default:
+                return this.liftStatement(json);
+            }
+        });
+    }
+
+    liftModuleSpecifier(str: string): string {
+        assertType(str, 'string');
+        this.strings.note(str);
+        return str;
+    }
+
+    liftImport(json: any): TS.Import {
+        assertNodeType(json, 'Import');
+        assertIsArray(json.namedImports);
+
+        const moduleSpecifier = this.liftModuleSpecifier(
+                                    json.moduleSpecifier);
+
+        // Imported bindings are immutable.
+        return this.cx.bindConsts(() => {
+            const defaultBinding =
+                json.defaultBinding !== null ?
+                    this.liftBindingIdentifier(
+                                    json.defaultBinding)
+                  : null;
+            const namedImports = json.namedImports.map(
+                            i => this.liftImportSpecifier(i));
+
+            return TS.Import.make({
+                moduleSpecifier, defaultBinding,
+                namedImports
+            });
+        });
+    }
+    liftImportNamespace(json: any): TS.ImportNamespace {
+        assertNodeType(json, 'ImportNamespace');
+
+        const moduleSpecifier = this.liftModuleSpecifier(
+                                    json.moduleSpecifier);
+
+        return this.cx.bindConsts(() => {
+            const defaultBinding =
+                json.defaultBinding !== null ?
+                    this.liftBindingIdentifier(
+                                    json.defaultBinding)
+                  : null;
+            const namespaceBinding =
+                this.liftBindingIdentifier(
+                                json.namespaceBinding);
+
+            return TS.ImportNamespace.make({
+                moduleSpecifier, defaultBinding,
+                namespaceBinding
+            });
+        });
+    }
+    liftImportSpecifier(json: any): TS.ImportSpecifier {
+        assertNodeType(json, 'ImportSpecifier');
+
+        const name = json.name !== null ?
+            this.liftIdentifier(json.name)
+          : null;
+        const binding = this.liftBindingIdentifier(
+                                            json.binding);
+
+        return TS.ImportSpecifier.make({name, binding});
+    }
+
+    liftExportAllFrom(json: any): TS.ExportAllFrom {
+        assertNodeType(json, 'ExportAllFrom');
+
+        const moduleSpecifier = this.liftModuleSpecifier(
+                                    json.moduleSpecifier);
+
+        return TS.ExportAllFrom.make({moduleSpecifier});
+    }
+    liftExportFrom(json: any): TS.ExportFrom {
+        assertNodeType(json, 'ExportFrom');
+        assertIsArray(json.namedExports);
+
+        const namedExports = json.namedExports.map(
+                        e => this.liftExportFromSpecifier(e));
+        const moduleSpecifier = this.liftModuleSpecifier(
+                                    json.moduleSpecifier);
+
+        return TS.ExportFrom.make({
+            namedExports, moduleSpecifier
+        });
+    }
+    liftExportFromSpecifier(json: any)
+      : TS.ExportFromSpecifier
+    {
+        assertNodeType(json, 'ExportFromSpecifier');
+
+        const name = this.liftIdentifier(json.name);
+        const exportedName = json.exportedName !== null ?
+            this.liftIdentifier(json.exportedName)
+          : null;
+
+        return TS.ExportFromSpecifier.make({
+            name, exportedName
+        });
+    }
+    liftExportLocals(json: any): TS.ExportLocals {
+        assertNodeType(json, 'ExportLocals');
+        assertIsArray(json.namedExports);
+
+        const namedExports = json.namedExports.map(
+                    e => this.liftExportLocalSpecifier(e));
+
+        return TS.ExportLocals.make({namedExports});
+    }
+    liftExportLocalSpecifier(json: any)
+      : TS.ExportLocalSpecifier
+    {
+        assertNodeType(json, 'ExportLocalSpecifier');
+
+        const name = this.liftIdentifierExpression(
+                                                json.name);
+        const exportedName = json.exportedName !== null ?
+            this.liftIdentifier(json.exportedName)
+          : null;
+
+        return TS.ExportLocalSpecifier.make({
+            name, exportedName
+        });
+    }
+    liftExport(json: any): TS.Export {
+        assertNodeType(json, 'Export');
+
+        const declaration =
+            this.liftExportDeclaration(json.declaration);
+
+        return TS.Export.make({declaration});
+    }
+    liftExportDeclaration(json: any)
+      : (TS.FunctionDeclaration | TS.ClassDeclaration |
+         TS.VariableDeclaration)
+    {
         switch (json.type as string) {
-          case 'ExpressionStatement':
-            return this.liftExpressionStatement(json);
-          case 'VariableDeclarationStatement':
-            return this.liftVariableDeclarationStatement(
-                                                    json);
           case 'FunctionDeclaration':
             return this.liftFunctionDeclaration(json);
-          case 'IfStatement':
-            return this.liftIfStatement(json);
-          case 'WhileStatement':
-            return this.liftWhileStatement(json);
-          case 'DoWhileStatement':
-            return this.liftDoWhileStatement(json);
-          case 'BlockStatement':
-            return this.liftBlockStatement(json);
-          case 'ReturnStatement':
-            return this.liftReturnStatement(json);
-          case 'ForInStatement':
-            return this.liftForInStatement(json);
-          case 'ForStatement':
-            return this.liftForStatement(json);
-          case 'BreakStatement':
-            return this.liftBreakStatement(json);
-          case 'ContinueStatement':
-            return this.liftContinueStatement(json);
-          case 'TryCatchStatement':
-            return this.liftTryCatchStatement(json);
-          case 'TryFinallyStatement':
-            return this.liftTryFinallyStatement(json);
-          case 'ThrowStatement':
-            return this.liftThrowStatement(json);
-          case 'SwitchStatement':
-            return this.liftSwitchStatement(json);
-          case 'SwitchStatementWithDefault':
-            return this.liftSwitchStatementWithDefault(
-                                                    json);
-          case 'LabeledStatement': /* WHAT? */
-            return this.liftLabeledStatement(json);
-          case 'EmptyStatement':
-            return this.liftEmptyStatement(json);
-          case 'WithStatement':
-            return this.liftWithStatement(json);
+          case 'ClassDeclaration':
+            return this.liftClassDeclaration(json);
+          case 'VariableDeclaration':
+            return this.liftVariableDeclaration(json);
           default:
-            throw new MatchError('Statement',
-                        summarizeNode(json));
+            throw new MatchError('ExportDeclaration',
+                                 summarizeNode(json));
         }
     }
+    liftExportDefault(json: any): TS.ExportDefault {
+        assertNodeType(json, 'ExportDefault');
+
+        // Anonymous default functions and classes are
+        // named `*default*` by the parser.
+        let body: (TS.FunctionDeclaration |
+                   TS.ClassDeclaration |
+                   TS.Expression);
+        switch (json.body.type as string) {
+          case 'FunctionDeclaration':
+            body = this.liftFunctionDeclaration(json.body);
+            break;
+          case 'ClassDeclaration':
+            body = this.liftClassDeclaration(json.body);
+            break;
+          default:
+            body = this.liftExpression(json.body);
+        }
+
+        return TS.ExportDefault.make({body});
+    }
+
+    //
+    // Statements
+    //
+
+    liftStatement(json: any): TS.Statement {
+        return this.located(json, () => {
+            switch (json.type as string) {
+              case 'ExpressionStatement':
+                return this.liftExpressionStatement(json);
+              case 'VariableDeclarationStatement':
+                return this.liftVariableDeclarationStatement(
+                                                        json);
+              case 'FunctionDeclaration':
+                return this.liftFunctionDeclaration(json);
+              case 'ClassDeclaration':
+                return this.liftClassDeclaration(json);
+              case 'IfStatement':
+                return this.liftIfStatement(json);
+              case 'WhileStatement':
+                return this.liftWhileStatement(json);
+              case 'DoWhileStatement':
+                return this.liftDoWhileStatement(json);
+              case 'BlockStatement':
+                return this.liftBlockStatement(json);
+              case 'ReturnStatement':
+                return this.liftReturnStatement(json);
+              case 'ForInStatement':
+                return this.liftForInStatement(json);
+              case 'ForOfStatement':
+                return this.liftForOfStatement(json);
+              case 'ForStatement':
+                return this.liftForStatement(json);
+              case 'BreakStatement':
+                return this.liftBreakStatement(json);
+              case 'ContinueStatement':
+                return this.liftContinueStatement(json);
+              case 'TryCatchStatement':
+                return this.liftTryCatchStatement(json);
+              case 'TryFinallyStatement':
+                return this.liftTryFinallyStatement(json);
+              case 'ThrowStatement':
+                return this.liftThrowStatement(json);
+              case 'SwitchStatement':
+                return this.liftSwitchStatement(json);
+              case 'SwitchStatementWithDefault':
+                return this.liftSwitchStatementWithDefault(
+                                                        json);
+              case 'LabeledStatement': /* WHAT? */
+                return this.liftLabeledStatement(json);
+              case 'EmptyStatement':
+                return this.liftEmptyStatement(json);
+              case 'WithStatement':
+                return this.liftWithStatement(json);
+              default:
+                throw new MatchError('Statement',
+                            summarizeNode(json));
+            }
+        });
+    }
 
     liftExpressionStatement(json: any)
       : TS.ExpressionStatement
@@ -700,7 +1574,7 @@ export class Importer {
         const kind = this.liftVariableDeclarationKind(
                                     json.kind as string);
         const declarators = json.declarators.map(d => {
-            return this.liftVariableDeclarator(d)
+            return this.liftVariableDeclarator(kind, d)
         });
 
         return TS.VariableDeclaration.make({kind,
@@ -721,7 +1595,8 @@ export class Importer {
                 'VariableDeclarationKind', kind);
         }
     }
-    liftVariableDeclarator(json: any)
+    liftVariableDeclarator(kind: TS.VariableDeclarationKind,
+                           json: any)
       : TS.VariableDeclarator
     {
         assertNodeType(json, 'VariableDeclarator');
@@ -733,28 +1608,123 @@ export class Importer {
                       (json.init !== null))
                             ? this.liftExpression(json.init)
                             : null;
-        const binding = this.cx.bindVars(() => {
+        const binding = this.cx.bindDeclKind(kind, () => {
             return this.liftBinding(json.binding);
         });
-        return TS.VariableDeclarator.make({binding, init});
+        return TS.VariableDeclarator.make({binding, init});
+    }
+    liftBinding(json: any): TS.Binding {
+        const binding = this.tryLiftBinding(json);
+        if (binding === null) {
+            throw new MatchError('Binding', json.type);
+        }
+        return binding;
+    }
+    tryLiftBinding(json: any): TS.Binding|null {
+        return this.located(json, () => {
+            switch (json.type) {
+              case 'BindingIdentifier':
+                return this.liftBindingIdentifier(json);
+              case 'ObjectBinding':
+                return this.liftObjectBinding(json);
+              case 'ArrayBinding':
+                return this.liftArrayBinding(json);
+              default:
+                return null;
+            }
+        });
+    }
+    liftObjectBinding(json: any): TS.ObjectBinding {
+        assertNodeType(json, 'ObjectBinding');
+        assertIsArray(json.properties);
+
+        if (json.rest !== null) {
+            throw new Error('Rest properties in object' +
+                            ' bindings are not supported.');
+        }
+
+        const properties = json.properties.map(
+                            p => this.liftBindingProperty(p));
+
+        return TS.ObjectBinding.make({properties});
+    }
+    liftBindingProperty(json: any): TS.BindingProperty {
+        switch (json.type as string) {
+          case 'BindingPropertyIdentifier':
+            return this.liftBindingPropertyIdentifier(json);
+          case 'BindingPropertyProperty':
+            return this.liftBindingPropertyProperty(json);
+          default:
+            throw new MatchError('BindingProperty',
+                                 summarizeNode(json));
+        }
+    }
+    liftBindingPropertyIdentifier(json: any)
+      : TS.BindingPropertyIdentifier
+    {
+        assertNodeType(json, 'BindingPropertyIdentifier');
+
+        const binding = this.liftBindingIdentifier(
+                                            json.binding);
+        const init = json.init !== null ?
+            this.liftExpression(json.init)
+          : null;
+
+        return TS.BindingPropertyIdentifier.make({
+            binding, init
+        });
+    }
+    liftBindingPropertyProperty(json: any)
+      : TS.BindingPropertyProperty
+    {
+        assertNodeType(json, 'BindingPropertyProperty');
+
+        const name = this.liftPropertyName(json.name);
+        const binding = this.liftBindingElement(
+                                            json.binding);
+
+        return TS.BindingPropertyProperty.make({
+            name, binding
+        });
+    }
+    liftArrayBinding(json: any): TS.ArrayBinding {
+        assertNodeType(json, 'ArrayBinding');
+        assertIsArray(json.elements);
+
+        // Null elements are elisions.
+        const elements = json.elements.map(e => {
+            return e !== null ? this.liftBindingElement(e)
+                              : null;
+        });
+        const rest = json.rest !== null ?
+            this.liftBinding(json.rest)
+          : null;
+
+        return TS.ArrayBinding.make({elements, rest});
     }
-    liftBinding(json: any): TS.Binding {
+    liftBindingElement(json: any)
+      : (TS.Binding | TS.BindingWithInitializer)
+    {
         const binding = this.tryLiftBinding(json);
-        if (binding === null) {
-            throw new MatchError('Binding', json.type);
+        if (binding !== null) {
+            return binding;
         }
-        return binding;
-    }
-    tryLiftBinding(json: any): TS.Binding|null {
-        switch (json.type) {
-          case 'BindingIdentifier':
-            return this.liftBindingIdentifier(json);
-          case 'BindingPattern':
-            throw new Error(
-                'BindingPattern not handled yet.');
-          default:
-            return null;
+        if (json.type === 'BindingWithDefault') {
+            return this.liftBindingWithDefault(json);
         }
+        throw new MatchError('BindingElement', json.type);
+    }
+    liftBindingWithDefault(json: any)
+      : TS.BindingWithInitializer
+    {
+        assertNodeType(json, 'BindingWithDefault');
+
+        const binding = this.liftBinding(json.binding);
+        const init = this.liftExpression(json.init);
+
+        return TS.BindingWithInitializer.make({
+            binding, init
+        });
     }
     liftBindingIdentifier(json: any): TS.BindingIdentifier {
         assertNodeType(json, 'BindingIdentifier');
@@ -775,6 +1745,7 @@ export class Importer {
       : TS.FunctionDeclaration
     {
         assertNodeType(json, 'FunctionDeclaration');
+        assertType(json.isAsync, 'boolean');
         assertType(json.isGenerator, 'boolean');
         assertNodeType(json.body, 'FunctionBody');
         assertIsArray(json.body.directives);
@@ -782,46 +1753,69 @@ export class Importer {
         const directives = json.body.directives.map(
                             d => this.liftDirective(d));
 
-        // TODO: Handle isAsync and isThisCaptured !!
-        const isAsync = false;
+        const isAsync = json.isAsync as boolean;
         const isGenerator = json.isGenerator as boolean;
-        const isThisCaptured = false;
-        return this.cx.enterParameterScope(ps => {
-
-            const name = this.cx.bindParameters(() => {
-                return this.liftBindingIdentifier(
-                                            json.name);
+        const kind = {isAsync, isGenerator};
+        return this.cx.enterDirectives(directives, () => {
+            // The name is declared in the enclosing scope,
+            // but is strict if the function is.
+            const name = this.cx.bindFunctions(() => {
+                return this.liftBindingIdentifier(json.name);
             });
 
-            const params =
-                this.liftFormalParameters(json.params);
-
-            const parameterScope =
-                    ps.extractParameterScope();
-
-            return this.cx.enterVarScope(bs => {
+            return this.cx.enterThisScope(ts => {
+                return this.cx.enterParameterScope(ps => {
+                    const params =
+                        this.liftFormalParameters(json.params);
+
+                    const {bodyScope, body} =
+                        this.liftFunctionBody(kind, json.body);
+
+                    const parameterScope =
+                            ps.extractParameterScope();
+
+                    const contents =
+                        TS.FunctionOrMethodContents.make({
+                            isThisCaptured: ts.isCaptured,
+                            parameterScope, params,
+                            bodyScope, body
+                        });
+
+                    if (this.options.lazyFunctions) {
+                        return TS.LazyFunctionDeclaration.make({
+                            isAsync, isGenerator, name,
+                            directives, content: contents
+                        });
+                    }
+                    return TS.EagerFunctionDeclaration.make({
+                        isAsync, isGenerator, name,
+                        directives, contents
+                    });
+                });
+            });
+        });
+    }
 
-                // ASSERT: FunctionBody is Array<Statement>
-                const body =
-                    json.body.statements.map(
-                        s => this.liftStatement(s));
+    /* Lift the statements of a function body within its
+     * var scope.  The scopes enclosing the body must only
+     * be extracted after this, once the uses of names
+     * within the body are resolved.
+     */
+    liftFunctionBody(kind: FunctionKind, json: any)
+      : {bodyScope: TS.AssertedVarScope,
+         body: TS.FunctionBody}
+    {
+        assertNodeType(json, 'FunctionBody');
 
-                const bodyScope = bs.extractVarScope();
+        return this.cx.enterVarScope(kind, bs => {
+            // ASSERT: FunctionBody is Array<Statement>
+            const body: TS.FunctionBody =
+                json.statements.map(
+                    s => this.liftStatement(s));
 
-                const contents =
-                    TS.FunctionOrMethodContents.make({
-                        isThisCaptured,
-                        parameterScope, params,
-                        bodyScope, body
-                    });
+            const bodyScope = bs.extractVarScope();
 
-                // TODO: Emit LazyFunctionDeclaration
-                // when appropriate.
-                return TS.EagerFunctionDeclaration.make({
-                    isAsync, isGenerator, name,
-                    directives, contents
-                });
-            });
+            return {bodyScope, body};
         });
     }
 
@@ -834,19 +1828,87 @@ export class Importer {
                 json.rest !== null ?
                     this.liftBinding(json.rest)
                   : null;
+
+            this.cx.noteParameterList(
+                (rest === null) &&
+                items.every(isSimpleParameter));
+
             return TS.FormalParameters.make({items, rest});
         });
     }
     liftParameter(json: any): TS.Parameter {
-        // Try to lift a binding
-        let binding = this.tryLiftBinding(json);
-        if (binding !== null) {
-            return binding;
-        }
+        return this.liftBindingElement(json);
+    }
+
+    liftClassDeclaration(json: any)
+      : TS.ClassDeclaration
+    {
+        assertNodeType(json, 'ClassDeclaration');
+
+        // All of a class is strict mode code.
+        return this.cx.enterStrictCode(() => {
+            // The class name is declared like a `let` in
+            // the enclosing scope.
+            const name = this.cx.bindLets(() => {
+                return this.liftBindingIdentifier(json.name);
+            });
+
+            return this.liftClassTail(json, name,
+                (_, super_, elements) => {
+                    return TS.ClassDeclaration.make({
+                        name, super: super_, elements
+                    });
+                });
+        });
+    }
+
+    liftClassTail<T>(json: any,
+                     outerName: TS.BindingIdentifier|null,
+                     f: (name: TS.BindingIdentifier|null,
+                         super_: TS.Expression|null,
+                         elements: Array<TS.ClassElement>)
+                            => T)
+      : T
+    {
+        assertIsArray(json.elements);
+
+        // Within the class, its name has an immutable
+        // binding of its own, which shadows any outer one.
+        // The schema does not record this scope, so uses
+        // of the name from methods are captured here.
+        return this.cx.enterBlockScope(bs => {
+            let name: TS.BindingIdentifier|null = null;
+            if (outerName !== null) {
+                this.cx.bindConsts(() => {
+                    this.cx.noteBoundName(outerName.name);
+                });
+                name = outerName;
+            } else if (json.name !== null) {
+                name = this.cx.bindConsts(() => {
+                    return this.liftBindingIdentifier(
+                                                json.name);
+                });
+            }
+
+            const super_ = json.super !== null ?
+                this.liftExpression(json.super)
+              : null;
+            const elements = json.elements.map(
+                            e => this.liftClassElement(e));
+
+            return f(name, super_, elements);
+        });
+    }
+
+    liftClassElement(json: any): TS.ClassElement {
+        assertNodeType(json, 'ClassElement');
+        assertType(json.isStatic, 'boolean');
+
+        const isStatic = json.isStatic as boolean;
+        const method = this.liftMethodDefinition(
+                                            json.method);
 
-        // TODO: handle other parameter options
-        // (BindingWithInitializer)
-        throw new MatchError('Parameter', json.type);
+        return TS.ClassElement.make({isStatic, method});
     }
 
     liftIfStatement(json: any): TS.IfStatement {
@@ -912,7 +1974,7 @@ export class Importer {
             // the expression gets scoped before the
             // variable gets bound.
             const right = this.liftExpression(json.right);
-            const left = this.liftForInStatementLeft(
+            const left = this.liftForInOfStatementLeft(
                                                 json.left);
             const body = this.liftStatement(json.body);
 
@@ -920,7 +1982,22 @@ export class Importer {
                                          body});
         });
     }
-    liftForInStatementLeft(json: any)
+    liftForOfStatement(json: any): TS.ForOfStatement {
+        assertNodeType(json, 'ForOfStatement');
+
+        return this.cx.enterBlockScope((vs: VarScope) => {
+            // As for ForIn, lift the expression before the
+            // binding.
+            const right = this.liftExpression(json.right);
+            const left = this.liftForInOfStatementLeft(
+                                                json.left);
+            const body = this.liftStatement(json.body);
+
+            return TS.ForOfStatement.make({left, right,
+                                         body});
+        });
+    }
+    liftForInOfStatementLeft(json: any)
       : (TS.ForInOfBinding | TS.AssignmentTarget)
     {
         const result = this.tryLiftAssignmentTarget(json);
@@ -933,7 +2010,7 @@ export class Importer {
                                        json.kind as string);
             if (json.declarators.length != 1) {
                 throw new Error(
-                    `Invalid ForIn with multiple `
+                    `Invalid ForIn/ForOf with multiple `
                   + `declarations: `
                   + `${json.declarators.length}.`);
             }
@@ -942,7 +2019,7 @@ export class Importer {
             if (decl.type !== 'VariableDeclarator') {
                 throw new Error(
                     `Expected VariableDeclarator in `
-                  + `ForIn, but got: ${decl.type}.`);
+                  + `ForIn/ForOf, but got: ${decl.type}.`);
             }
 
             const binding = this.cx.bindDeclKind(kind,
@@ -953,7 +2030,7 @@ export class Importer {
             return TS.ForInOfBinding.make({kind, binding});
         }
 
-        throw new MatchError('ForInStatementLeft',
+        throw new MatchError('ForInOfStatementLeft',
                              json.type);
     }
 
@@ -1041,8 +2118,7 @@ export class Importer {
 
         return this.cx.enterBoundNamesScope(bs => {
             const binding = this.cx.bindCatchClause(() => {
-                return this.liftBindingIdentifier(
-                                        json.binding);
+                return this.liftBinding(json.binding);
             });
 
             const body = this.liftBlock(json.body);
@@ -1108,7 +2184,7 @@ export class Importer {
         const defaultCase = this.liftSwitchDefault(
                                         json.defaultCase);
 
-        const postDefaultCases = json.preDefaultCases.map(
+        const postDefaultCases = json.postDefaultCases.map(
           c => {
             return this.liftSwitchCase(c);
           });
@@ -1156,6 +2232,7 @@ export class Importer {
     }
     liftWithStatement(json: any): TS.WithStatement {
         assertNodeType(json, 'WithStatement');
+        this.cx.noteWithStatement();
 
         const object = this.liftExpression(json.object);
         const body = this.liftStatement(json.body);
@@ -1170,70 +2247,103 @@ export class Importer {
         }
         throw new MatchError('Expression', json.type);
     }
-    liftExpressionOrSuper(json: any): TS.Expression {
+    liftExpressionOrSuper(json: any)
+      : TS.Expression | TS.Super
+    {
+        if (json.type === 'Super') {
+            return this.liftSuper(json);
+        }
         const expr = this.tryLiftExpression(json);
         if (expr !== null) {
             return expr;
         }
-        // TODO: Handle 'Super'.
         throw new MatchError('ExpressionOrSuper',
                              json.type);
     }
+    liftSuper(json: any): TS.Super {
+        assertNodeType(json, 'Super');
+
+        // Super calls and property accesses refer to
+        // `this`, so arrow functions capture it too.
+        this.cx.noteUseThis();
+        return TS.Super.make({});
+    }
     tryLiftExpression(json: any): TS.Expression|null {
-        switch (json.type as string) {
-          case 'CallExpression':
-            return this.liftCallExpression(json);
-          case 'StaticMemberExpression':
-            return this.liftStaticMemberExpression(json);
-          case 'IdentifierExpression':
-            return this.liftIdentifierExpression(json);
-          case 'LiteralStringExpression':
-            return this.liftLiteralStringExpression(json);
-          case 'LiteralBooleanExpression':
-            return this.liftLiteralBooleanExpression(json);
-          case 'ObjectExpression':
-            return this.liftObjectExpression(json);
-          case 'ArrayExpression':
-            return this.liftArrayExpression(json);
-          case 'FunctionExpression':
-            return this.liftFunctionExpression(json);
-          case 'AssignmentExpression':
-            return this.liftAssignmentExpression(json);
-          case 'LiteralNullExpression':
-            return this.liftLiteralNullExpression(json);
-          case 'UnaryExpression':
-            return this.liftUnaryExpression(json);
-          case 'BinaryExpression':
-            return this.liftBinaryExpression(json);
-          case 'ComputedMemberExpression':
-            return this.liftComputedMemberExpression(json);
-          case 'LiteralNumericExpression':
-            return this.liftLiteralNumericExpression(json);
-          case 'LiteralRegExpExpression':
-            return this.liftLiteralRegExpExpression(json);
-          case 'CompoundAssignmentExpression':
-            return this.liftCompoundAssignmentExpression(
-                                                      json);
-          case 'UpdateExpression':
-            return this.liftUpdateExpression(json);
-          case 'NewExpression':
-            return this.liftNewExpression(json);
-          case 'ThisExpression':
-            return this.liftThisExpression(json);
-          case 'ConditionalExpression':
-            return this.liftConditionalExpression(json);
-          default:
-            throw new Error("Unrecognized expression");
-        }
+        return this.located(json, () => {
+            switch (json.type as string) {
+              case 'CallExpression':
+                return this.liftCallExpression(json);
+              case 'StaticMemberExpression':
+                return this.liftStaticMemberExpression(json);
+              case 'IdentifierExpression':
+                return this.liftIdentifierExpression(json);
+              case 'LiteralStringExpression':
+                return this.liftLiteralStringExpression(json);
+              case 'LiteralBooleanExpression':
+                return this.liftLiteralBooleanExpression(json);
+              case 'ObjectExpression':
+                return this.liftObjectExpression(json);
+              case 'ArrayExpression':
+                return this.liftArrayExpression(json);
+              case 'FunctionExpression':
+                return this.liftFunctionExpression(json);
+              case 'ArrowExpression':
+                return this.liftArrowExpression(json);
+              case 'ClassExpression':
+                return this.liftClassExpression(json);
+              case 'AssignmentExpression':
+                return this.liftAssignmentExpression(json);
+              case 'LiteralNullExpression':
+                return this.liftLiteralNullExpression(json);
+              case 'UnaryExpression':
+                return this.liftUnaryExpression(json);
+              case 'BinaryExpression':
+                return this.liftBinaryExpression(json);
+              case 'ComputedMemberExpression':
+                return this.liftComputedMemberExpression(json);
+              case 'LiteralNumericExpression':
+                return this.liftLiteralNumericExpression(json);
+              case 'LiteralRegExpExpression':
+                return this.liftLiteralRegExpExpression(json);
+              case 'CompoundAssignmentExpression':
+                return this.liftCompoundAssignmentExpression(
+                                                          json);
+              case 'UpdateExpression':
+                return this.liftUpdateExpression(json);
+              case 'NewExpression':
+                return this.liftNewExpression(json);
+              case 'ThisExpression':
+                return this.liftThisExpression(json);
+              case 'ConditionalExpression':
+                return this.liftConditionalExpression(json);
+              case 'TemplateExpression':
+                return this.liftTemplateExpression(json);
+              case 'YieldExpression':
+                return this.liftYieldExpression(json);
+              case 'YieldGeneratorExpression':
+                return this.liftYieldGeneratorExpression(json);
+              case 'AwaitExpression':
+                return this.liftAwaitExpression(json);
+              default:
+                return null;
+            }
+        });
     }
     liftCallExpression(json: any): TS.CallExpression {
         assertNodeType(json, 'CallExpression');
 
-        // TODO: Check for |super| in callee.
-        const callee = this.liftExpression(json.callee);
-        const arguments_ =
-          (json.arguments as Array<any>)
-            .map(s => this.liftExpression(s));
+        const callee = this.liftExpressionOrSuper(
+                                            json.callee);
+        const arguments_ = this.liftArguments(
+                                        json.arguments);
+
+        // A call of `eval` by name may be a direct eval.
+        if ((callee instanceof TS.IdentifierExpression) &&
+            (callee.name.name === 'eval'))
+        {
+            this.cx.noteDirectEval();
+        }
+
         return TS.CallExpression.make({
             callee, arguments: arguments_
         });
@@ -1244,8 +2354,8 @@ export class Importer {
         assertNodeType(json, 'StaticMemberExpression');
         assertType(json.property, 'string');
 
-        // TODO: Check for |super| in object_.
-        const object = this.liftExpression(json.object);
+        const object = this.liftExpressionOrSuper(
+                                            json.object);
         const property = this.liftPropertyString(
                                         json.property);
         return TS.StaticMemberExpression.make({
@@ -1300,20 +2410,24 @@ export class Importer {
     }
 
     liftObjectProperty(json: any): TS.ObjectProperty {
-        switch (json.type as string) {
-          case 'DataProperty':
-            return this.liftDataProperty(json);
-          case 'Getter':
-            return this.liftGetter(json);
-          case 'Setter':
-            return this.liftSetter(json);
-          case 'ShorthandProperty':
-            return this.liftShorthandProperty(json);
-          default:
-            throw new MatchError('ObjectProperty',
-                                 summarizeNode(json));
+        return this.located(json, () => {
+            switch (json.type as string) {
+              case 'DataProperty':
+                return this.liftDataProperty(json);
+              case 'Method':
+                return this.liftMethod(json);
+              case 'Getter':
+                return this.liftGetter(json);
+              case 'Setter':
+                return this.liftSetter(json);
+              case 'ShorthandProperty':
+                return this.liftShorthandProperty(json);
+              default:
+                throw new MatchError('ObjectProperty',
+                                     summarizeNode(json));
 
-        }
+            }
+        });
     }
 
     liftDataProperty(json: any): TS.DataProperty {
@@ -1326,6 +2440,73 @@ export class Importer {
         return TS.DataProperty.make({name, expression});
     }
 
+    liftMethodDefinition(json: any)
+      : TS.MethodDefinition
+    {
+        return this.located(json, () => {
+            switch (json.type as string) {
+              case 'Method':
+                return this.liftMethod(json);
+              case 'Getter':
+                return this.liftGetter(json);
+              case 'Setter':
+                return this.liftSetter(json);
+              default:
+                throw new MatchError('MethodDefinition',
+                                     summarizeNode(json));
+            }
+        });
+    }
+
+    liftMethod(json: any): TS.Method {
+        assertNodeType(json, 'Method');
+        assertType(json.isAsync, 'boolean');
+        assertType(json.isGenerator, 'boolean');
+        assertNodeType(json.body, 'FunctionBody');
+        assertIsArray(json.body.directives);
+
+        const name = this.liftPropertyName(json.name);
+        const directives = json.body.directives.map(
+                            d => this.liftDirective(d));
+
+        const isAsync = json.isAsync as boolean;
+        const isGenerator = json.isGenerator as boolean;
+        const kind = {isAsync, isGenerator};
+
+        return this.cx.enterDirectives(directives, () => {
+            return this.cx.enterThisScope(ts => {
+                return this.cx.enterUniqueParameterScope(ps => {
+                    const params =
+                        this.liftFormalParameters(json.params);
+
+                    const {bodyScope, body} =
+                        this.liftFunctionBody(kind, json.body);
+
+                    const parameterScope =
+                            ps.extractParameterScope();
+
+                    const contents =
+                        TS.FunctionOrMethodContents.make({
+                            isThisCaptured: ts.isCaptured,
+                            parameterScope, params,
+                            bodyScope, body
+                        });
+
+                    if (this.options.lazyFunctions) {
+                        return TS.LazyMethod.make({
+                            isAsync, isGenerator, name,
+                            directives, contents
+                        });
+                    }
+                    return TS.EagerMethod.make({
+                        isAsync, isGenerator, name,
+                        directives, contents
+                    });
+                });
+            });
+        });
+    }
+
     liftGetter(json: any): TS.Getter {
         assertNodeType(json, 'Getter');
 
@@ -1333,25 +2514,26 @@ export class Importer {
         const directives = json.body.directives.map(
                             d => this.liftDirective(d));
 
-        // TODO: Handle isThisCaptured properly.
-        const isThisCaptured = false;
-
-        return this.cx.enterVarScope(bs => {
-            // ASSERT: FunctionBody is Array<Statement>
-            const body =
-                json.body.statements.map(
-                    s => this.liftStatement(s));
+        return this.cx.enterDirectives(directives, () => {
+            return this.cx.enterThisScope(ts => {
+                const {bodyScope, body} =
+                    this.liftFunctionBody(SYNC_FUNCTION,
+                                          json.body);
 
-            const bodyScope = bs.extractVarScope();
+                const contents =
+                    TS.GetterContents.make({
+                        isThisCaptured: ts.isCaptured,
+                        bodyScope, body
+                    });
 
-            const contents =
-                TS.GetterContents.make({
-                    isThisCaptured, bodyScope, body
+                if (this.options.lazyFunctions) {
+                    return TS.LazyGetter.make({
+                        name, directives, contents
+                    });
+                }
+                return TS.EagerGetter.make({
+                    name, directives, contents
                 });
-
-            // TODO: Emit LazyGetter when appropriate.
-            return TS.EagerGetter.make({
-                name, directives, contents
             });
         });
     }
@@ -1363,37 +2545,37 @@ export class Importer {
         const directives = json.body.directives.map(
                             d => this.liftDirective(d));
 
-        // TODO: Handle isThisCaptured properly.
-        const isThisCaptured = false;
-
-        return this.cx.enterParameterScope(ps => {
-            const param = this.cx.bindParameters(() => {
-                return json.param !== null ?
-                    this.liftBindingIdentifier(json.param)
-                  : null;
-            });
-
-            const parameterScope =
-                    ps.extractParameterScope();
-
-            return this.cx.enterVarScope(bs => {
-                // ASSERT: FunctionBody is Array<Statement>
-                const body =
-                    json.body.statements.map(
-                        s => this.liftStatement(s));
-
-                const bodyScope = bs.extractVarScope();
-
-                const contents =
-                    TS.SetterContents.make({
-                        isThisCaptured,
-                        parameterScope, param,
-                        bodyScope, body
+        return this.cx.enterDirectives(directives, () => {
+            return this.cx.enterThisScope(ts => {
+                return this.cx.enterUniqueParameterScope(ps => {
+                    const param = this.cx.bindParameters(() => {
+                        return this.liftParameter(json.param);
+                    });
+                    this.cx.noteParameterList(
+                                    isSimpleParameter(param));
+
+                    const {bodyScope, body} =
+                        this.liftFunctionBody(SYNC_FUNCTION,
+                                              json.body);
+
+                    const parameterScope =
+                            ps.extractParameterScope();
+
+                    const contents =
+                        TS.SetterContents.make({
+                            isThisCaptured: ts.isCaptured,
+                            parameterScope, param,
+                            bodyScope, body
+                        });
+
+                    if (this.options.lazyFunctions) {
+                        return TS.LazySetter.make({
+                            name, directives, contents
+                        });
+                    }
+                    return TS.EagerSetter.make({
+                        name, directives, contents
                     });
-
-                // TODO: Emit LazySetter when appropriate.
-                return TS.EagerSetter.make({
-                    name, directives, contents
                 });
             });
         });
@@ -1430,16 +2612,33 @@ export class Importer {
         }
 
         if (json.type === 'SpreadElement') {
-            throw new Error("TODO: Handle SpreadElements" +
-                            "in array literals.");
+            return this.liftSpreadElement(json);
         }
 
         throw new MatchError('ArrayElement', json.type);
     }
+    liftSpreadElement(json: any): TS.SpreadElement {
+        assertNodeType(json, 'SpreadElement');
+
+        const expression = this.liftExpression(
+                                        json.expression);
+
+        return TS.SpreadElement.make({expression});
+    }
+    liftArguments(json: any): TS.Arguments {
+        assertIsArray(json);
+
+        return json.map(a => {
+            return a.type === 'SpreadElement' ?
+                this.liftSpreadElement(a)
+              : this.liftExpression(a);
+        });
+    }
     liftFunctionExpression(json: any)
       : TS.FunctionExpression
     {
         assertNodeType(json, 'FunctionExpression');
+        assertType(json.isAsync, 'boolean');
         assertType(json.isGenerator, 'boolean');
         assertNodeType(json.body, 'FunctionBody');
         assertIsArray(json.body.directives);
@@ -1447,51 +2646,130 @@ export class Importer {
         const directives = json.body.directives.map(
                             d => this.liftDirective(d));
 
-        // TODO: Handle isAsync and isThisCaptured
-        //       and isFunctionNameCaptured!!
-        const isAsync = false;
+        const isAsync = json.isAsync as boolean;
         const isGenerator = json.isGenerator as boolean;
-        const isThisCaptured = false;
-        const isFunctionNameCaptured = false;
+        const kind = {isAsync, isGenerator};
+
+        return this.cx.enterDirectives(directives, () => {
+            return this.cx.enterThisScope(ts => {
+                // The name is bound around the parameters, and
+                // is only visible within the function.
+                return this.cx.enterFunctionNameScope(ns => {
+                    const name = this.cx.bindFunctionName(() => {
+                        return json.name !== null ?
+                            this.liftBindingIdentifier(json.name)
+                          : null;
+                    });
 
-        return this.cx.enterParameterScope(ps => {
-            const name = this.cx.bindParameters(() => {
-                return json.name !== null ?
-                    this.liftBindingIdentifier(json.name)
-                  : null;
+                    const {parameterScope, params,
+                           bodyScope, body} =
+                        this.cx.enterParameterScope(ps => {
+                            const params =
+                                this.liftFormalParameters(
+                                                json.params);
+
+                            const {bodyScope, body} =
+                                this.liftFunctionBody(kind,
+                                                      json.body);
+
+                            const parameterScope =
+                                    ps.extractParameterScope();
+
+                            return {parameterScope, params,
+                                    bodyScope, body};
+                        });
+
+                    const isFunctionNameCaptured =
+                            ns.extractIsNameCaptured();
+
+                    const contents =
+                        TS.FunctionExpressionContents.make({
+                            isThisCaptured: ts.isCaptured,
+                            isFunctionNameCaptured,
+                            parameterScope, params,
+                            bodyScope, body
+                        });
+
+                    if (this.options.lazyFunctions) {
+                        return TS.LazyFunctionExpression.make({
+                            isAsync, isGenerator, name,
+                            directives, contents
+                        });
+                    }
+                    return TS.EagerFunctionExpression.make({
+                        isAsync, isGenerator, name,
+                        directives, contents
+                    });
+                });
             });
-            const params =
-                this.liftFormalParameters(json.params);
-
-            const parameterScope =
-                    ps.extractParameterScope();
-
-            return this.cx.enterVarScope(bs => {
-
-                // ASSERT: FunctionBody is Array<Statement>
-                const body =
-                    json.body.statements.map(
-                        s => this.liftStatement(s));
-
-                const bodyScope = bs.extractVarScope();
-
-                const contents =
-                    TS.FunctionExpressionContents.make({
-                        isThisCaptured,
-                        isFunctionNameCaptured,
-                        parameterScope, params,
-                        bodyScope, body
+        });
+    }
+    liftArrowExpression(json: any): TS.ArrowExpression {
+        assertNodeType(json, 'ArrowExpression');
+        assertType(json.isAsync, 'boolean');
+
+        // The body is either a FunctionBody, or a single
+        // expression with no directives.
+        const hasBlockBody = json.body.type === 'FunctionBody';
+        const directives = hasBlockBody ?
+            json.body.directives.map(
+                d => this.liftDirective(d))
+          : null;
+
+        // Arrow functions are never generators.
+        const isAsync = json.isAsync as boolean;
+        const kind = {isAsync, isGenerator: false};
+
+        return this.cx.enterDirectives(directives, () => {
+            return this.cx.enterArrowFunction(() => {
+                return this.cx.enterUniqueParameterScope(ps => {
+                    const params =
+                        this.liftFormalParameters(json.params);
+
+                    const {bodyScope, body} = hasBlockBody ?
+                        this.liftFunctionBody(kind, json.body)
+                      : this.cx.enterVarScope(kind, bs => {
+                            const body = this.liftExpression(
+                                                    json.body);
+                            const bodyScope = bs.extractVarScope();
+                            return {bodyScope, body};
+                        });
+
+                    const parameterScope =
+                            ps.extractParameterScope();
+
+                    const contents =
+                        TS.ArrowExpressionContents.make({
+                            parameterScope, params,
+                            bodyScope, body
+                        });
+
+                    if (this.options.lazyFunctions) {
+                        return TS.LazyArrowExpression.make({
+                            isAsync, directives, contents
+                        });
+                    }
+                    return TS.EagerArrowExpression.make({
+                        isAsync, directives, contents
                     });
-
-                // TODO: Emit SkippableFunctionExpression
-                // when appropriate.
-                return TS.EagerFunctionExpression.make({
-                    isAsync, isGenerator, name,
-                    directives, contents
                 });
             });
         });
     }
+    liftClassExpression(json: any): TS.ClassExpression {
+        assertNodeType(json, 'ClassExpression');
+
+        // The name of a class expression is only bound
+        // within the class itself.
+        return this.cx.enterStrictCode(() => {
+            return this.liftClassTail(json, null,
+                (name, super_, elements) => {
+                    return TS.ClassExpression.make({
+                        name, super: super_, elements
+                    });
+                });
+        });
+    }
     liftAssignmentExpression(json: any)
       : TS.AssignmentExpression
     {
@@ -1517,12 +2795,131 @@ export class Importer {
     tryLiftAssignmentTarget(json: any)
       : TS.AssignmentTarget | null
     {
-        const simple =
-            this.tryLiftSimpleAssignmentTarget(json);
-        if (simple !== null) {
-            return simple;
+        return this.located(json, () => {
+            const simple =
+                this.tryLiftSimpleAssignmentTarget(json);
+            if (simple !== null) {
+                return simple;
+            }
+            switch (json.type as string) {
+              case 'ObjectAssignmentTarget':
+                return this.liftObjectAssignmentTarget(json);
+              case 'ArrayAssignmentTarget':
+                return this.liftArrayAssignmentTarget(json);
+              default:
+                return null;
+            }
+        });
+    }
+    liftObjectAssignmentTarget(json: any)
+      : TS.ObjectAssignmentTarget
+    {
+        assertNodeType(json, 'ObjectAssignmentTarget');
+        assertIsArray(json.properties);
+
+        if (json.rest !== null) {
+            throw new Error('Rest properties in object' +
+                            ' assignment targets are not' +
+                            ' supported.');
+        }
+
+        const properties = json.properties.map(
+                p => this.liftAssignmentTargetProperty(p));
+
+        return TS.ObjectAssignmentTarget.make({properties});
+    }
+    liftAssignmentTargetProperty(json: any)
+      : TS.AssignmentTargetProperty
+    {
+        switch (json.type as string) {
+          case 'AssignmentTargetPropertyIdentifier':
+            return this.liftAssignmentTargetPropertyIdentifier(
+                                                        json);
+          case 'AssignmentTargetPropertyProperty':
+            return this.liftAssignmentTargetPropertyProperty(
+                                                        json);
+          default:
+            throw new MatchError('AssignmentTargetProperty',
+                                 summarizeNode(json));
+        }
+    }
+    liftAssignmentTargetPropertyIdentifier(json: any)
+      : TS.AssignmentTargetPropertyIdentifier
+    {
+        assertNodeType(json,
+                'AssignmentTargetPropertyIdentifier');
+
+        const binding = this.liftAssignmentTargetIdentifier(
+                                            json.binding);
+        const init = json.init !== null ?
+            this.liftExpression(json.init)
+          : null;
+
+        return TS.AssignmentTargetPropertyIdentifier.make({
+            binding, init
+        });
+    }
+    liftAssignmentTargetPropertyProperty(json: any)
+      : TS.AssignmentTargetPropertyProperty
+    {
+        assertNodeType(json,
+                'AssignmentTargetPropertyProperty');
+
+        const name = this.liftPropertyName(json.name);
+        const binding = this.liftAssignmentTargetElement(
+                                            json.binding);
+
+        return TS.AssignmentTargetPropertyProperty.make({
+            name, binding
+        });
+    }
+    liftArrayAssignmentTarget(json: any)
+      : TS.ArrayAssignmentTarget
+    {
+        assertNodeType(json, 'ArrayAssignmentTarget');
+        assertIsArray(json.elements);
+
+        // Null elements are elisions.
+        const elements = json.elements.map(e => {
+            return e !== null ?
+                this.liftAssignmentTargetElement(e)
+              : null;
+        });
+        const rest = json.rest !== null ?
+            this.liftAssignmentTarget(json.rest)
+          : null;
+
+        return TS.ArrayAssignmentTarget.make({
+            elements, rest
+        });
+    }
+    liftAssignmentTargetElement(json: any)
+      : (TS.AssignmentTarget |
+         TS.AssignmentTargetWithInitializer)
+    {
+        const target = this.tryLiftAssignmentTarget(json);
+        if (target !== null) {
+            return target;
         }
-        return null;
+        if (json.type === 'AssignmentTargetWithDefault') {
+            return this.liftAssignmentTargetWithDefault(
+                                                        json);
+        }
+        throw new MatchError('AssignmentTargetElement',
+                             json.type);
+    }
+    liftAssignmentTargetWithDefault(json: any)
+      : TS.AssignmentTargetWithInitializer
+    {
+        assertNodeType(json, 'AssignmentTargetWithDefault');
+
+        const binding = this.liftAssignmentTarget(
+                                            json.binding);
+        const init = this.liftExpression(json.init);
+
+        return TS.AssignmentTargetWithInitializer.make({
+            binding, init
+        });
     }
     liftSimpleAssignmentTarget(json: any)
       : TS.SimpleAssignmentTarget
@@ -1560,8 +2957,8 @@ export class Importer {
 
         const name = this.liftIdentifier(json.name);
 
-        // Note the use of the identifier.
-        this.cx.noteUseName(name);
+        // Note the assignment of the identifier.
+        this.cx.noteAssignName(name);
 
         return TS.AssignmentTargetIdentifier.make({name});
     }
@@ -1616,6 +3013,12 @@ export class Importer {
 
         const operand = this.liftExpression(json.operand);
 
+        if ((operator === TS.UnaryOperator.KwDelete) &&
+            (operand instanceof TS.IdentifierExpression))
+        {
+            this.cx.noteDeleteName(operand.name);
+        }
+
         return TS.UnaryExpression.make({operator, operand});
     }
     liftBinaryExpression(json: any): TS.BinaryExpression {
@@ -1675,7 +3078,7 @@ export class Importer {
         if (json.multiLine) { flagArray.push('m'); }
         if (json.unicode) { flagArray.push('u'); }
         if (json.sticky) { flagArray.push('y'); }
-        const flags = flagArray.join();
+        const flags = flagArray.join('');
         this.strings.note(flags);
 
         return TS.LiteralRegExpExpression.make({
@@ -1726,8 +3129,8 @@ export class Importer {
         assertNodeType(json, 'NewExpression');
 
         const callee = this.liftExpression(json.callee);
-        const arguments_ =
-            json.arguments.map(s => this.liftExpression(s));
+        const arguments_ = this.liftArguments(
+                                        json.arguments);
 
         return TS.NewExpression.make({
             callee, arguments: arguments_
@@ -1735,6 +3138,7 @@ export class Importer {
     }
     liftThisExpression(json: any): TS.ThisExpression {
         assertNodeType(json, 'ThisExpression');
+        this.cx.noteUseThis();
         return TS.ThisExpression.make({});
     }
     liftConditionalExpression(json: any)
@@ -1755,10 +3159,73 @@ export class Importer {
         });
     }
 
+    liftTemplateExpression(json: any)
+      : TS.TemplateExpression
+    {
+        assertNodeType(json, 'TemplateExpression');
+        assertIsArray(json.elements);
+
+        const tag = json.tag !== null ?
+            this.liftExpression(json.tag)
+          : null;
+
+        // Template elements alternate with the substituted
+        // expressions, starting and ending with an element.
+        const elements = json.elements.map(e => {
+            return e.type === 'TemplateElement' ?
+                this.liftTemplateElement(e)
+              : this.liftExpression(e);
+        });
+
+        return TS.TemplateExpression.make({tag, elements});
+    }
+    liftTemplateElement(json: any): TS.TemplateElement {
+        assertNodeType(json, 'TemplateElement');
+        assertType(json.rawValue, 'string');
+
+        const rawValue = json.rawValue as string;
+        this.strings.note(rawValue);
+
+        return TS.TemplateElement.make({rawValue});
+    }
+
+    liftYieldExpression(json: any): TS.YieldExpression {
+        assertNodeType(json, 'YieldExpression');
+        this.cx.noteYield();
+
+        const expression = json.expression !== null ?
+            this.liftExpression(json.expression)
+          : null;
+
+        return TS.YieldExpression.make({expression});
+    }
+    liftYieldGeneratorExpression(json: any)
+      : TS.YieldStarExpression
+    {
+        assertNodeType(json, 'YieldGeneratorExpression');
+        this.cx.noteYield();
+
+        const expression = this.liftExpression(
+                                        json.expression);
+
+        return TS.YieldStarExpression.make({expression});
+    }
+    liftAwaitExpression(json: any): TS.AwaitExpression {
+        assertNodeType(json, 'AwaitExpression');
+        this.cx.noteAwait();
+
+        const expression = this.liftExpression(
+                                        json.expression);
+
+        return TS.AwaitExpression.make({expression});
+    }
+
     liftPropertyName(json: any): TS.PropertyName {
         switch (json.type as string) {
           case 'StaticPropertyName':
             return this.liftStaticPropertyName(json);
+          case 'ComputedPropertyName':
+            return this.liftComputedPropertyName(json);
           default:
             throw new MatchError('PropertyName', json.type);
         }
@@ -1781,4 +3248,14 @@ export class Importer {
 
         return TS.LiteralPropertyName.make({value});
     }
+    liftComputedPropertyName(json: any)
+      : TS.ComputedPropertyName
+    {
+        assertNodeType(json, 'ComputedPropertyName');
+
+        const expression = this.liftExpression(
+                                        json.expression);
+
+        return TS.ComputedPropertyName.make({expression});
+    }
 }
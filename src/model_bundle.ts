@@ -0,0 +1,95 @@
+
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+import {ModelDescriptor} from './container';
+
+/**
+ * A model bundle is a single file holding everything the
+ * entropy coder and decoder need to agree on, so that a
+ * trained model can be shipped and pinned independently
+ * of the result dir it was built from.
+ *
+ * It is a JSON object with:
+ *
+ *      format          always `MODEL_BUNDLE_FORMAT`
+ *      version         `MODEL_BUNDLE_VERSION`
+ *      schema          fingerprint of the schema the
+ *                      model was trained against (see
+ *                      `TreeSchema.fingerprint`)
+ *      model           the `ModelDescriptor` the tables
+ *                      were originally read with
+ *      globalStrings   the global string dictionary
+ *      tables          every probability table, with its
+ *                      sizes already normalized
+ *
+ * Since the tables are stored normalized, a model loaded
+ * from a bundle codes exactly like the one it was
+ * exported from.
+ */
+export const MODEL_BUNDLE_FORMAT: string = 'binast-model';
+
+export const MODEL_BUNDLE_VERSION: number = 1;
+
+/** A normalized table, see `ProbTable.toBundleJson`. */
+export interface ModelTableJson {
+    readonly key: string;
+    readonly names: Array<string|number>;
+    readonly sizes: Array<number>;
+}
+
+export interface ModelBundle {
+    readonly format: string;
+    readonly version: number;
+    readonly schema: string;
+    readonly model: ModelDescriptor;
+    readonly globalStrings: Array<string>;
+    readonly tables: Array<ModelTableJson>;
+}
+
+/**
+ * Identify a model by its contents.  Two models with the
+ * same id code identically, wherever they were loaded
+ * from.
+ */
+export function modelId(globalStrings: Array<string>,
+                        tables: Array<ModelTableJson>)
+  : string
+{
+    const hash = crypto.createHash('sha256');
+    hash.update(JSON.stringify([globalStrings, tables]));
+    return hash.digest('hex');
+}
+
+/** Check the structure of a parsed bundle. */
+export function checkModelBundle(json: any): ModelBundle {
+    assert(json instanceof Object, 'Bad model bundle.');
+    if (json.format !== MODEL_BUNDLE_FORMAT) {
+        throw new Error('Not a model bundle.');
+    }
+    if (json.version !== MODEL_BUNDLE_VERSION) {
+        throw new Error(`Unsupported model bundle` +
+                        ` version ${json.version}.`);
+    }
+    assert(typeof(json.schema) === 'string');
+    assert(json.model instanceof Object);
+    assert(json.globalStrings instanceof Array);
+    for (let str of json.globalStrings) {
+        assert(typeof(str) === 'string');
+    }
+    assert(json.tables instanceof Array);
+    for (let table of json.tables) {
+        assert(typeof(table.key) === 'string');
+        assert(table.names instanceof Array);
+        assert(table.sizes instanceof Array);
+        assert(table.names.length === table.sizes.length,
+               `Bad model table ${table.key}`);
+    }
+    return json as ModelBundle;
+}
+
+export function readModelBundle(path: string): ModelBundle {
+    const data = fs.readFileSync(path, 'utf8');
+    return checkModelBundle(JSON.parse(data));
+}
@@ -0,0 +1,56 @@
+
+/**
+ * A position in a source file, as reported by
+ * shift-parser: lines count from 1, columns from 0.
+ */
+export interface SourcePosition {
+    readonly line: number;
+    readonly column: number;
+    readonly offset: number;
+}
+
+/** The source text a node was parsed from. */
+export interface SourceSpan {
+    readonly start: SourcePosition;
+    readonly end: SourcePosition;
+}
+
+/**
+ * The source spans of lifted nodes.  The typed AST only
+ * holds what the schema describes, so spans are kept in
+ * this side table, keyed by node.
+ */
+export class SourceLocations {
+    private readonly spans: WeakMap<object, SourceSpan>;
+
+    constructor() {
+        this.spans = new WeakMap();
+    }
+
+    set(node: object, span: SourceSpan) {
+        this.spans.set(node, span);
+    }
+
+    get(node: object): SourceSpan|null {
+        const span = this.spans.get(node);
+        return (span !== undefined) ? span : null;
+    }
+}
+
+/**
+ * Format a position as `line:col`, counting columns from
+ * 1 as editors and compilers do.
+ */
+export function formatPosition(pos: SourcePosition)
+  : string
+{
+    return `${pos.line}:${pos.column + 1}`;
+}
+
+/** Format the start of a span as `path:line:col`. */
+export function formatLocation(path: string,
+                               span: SourceSpan)
+  : string
+{
+    return `${path}:${formatPosition(span.start)}`;
+}
@@ -1,3 +1,4 @@
+import * as assert from 'assert';
 
 export class StringCache {
     readonly limit: number;
@@ -29,6 +30,13 @@ export class StringCache {
         return idx;
     }
 
+    /** Return the element at the given index without
+     * updating the cache. */
+    get(idx: number): string {
+        assert(idx >= 0 && idx < this.elems.length);
+        return this.elems[idx];
+    }
+
     private pushToFront(elem: string) {
         const elems = this.elems;
         elems.unshift(elem);
@@ -0,0 +1,211 @@
+
+import * as assert from 'assert';
+
+import {MemoryByteSink} from './data_sink';
+import {ByteReader, encodeVarUint} from './container';
+import {RangeCoder} from './range_coder';
+import {brotliBytes, unbrotliBytes} from './the_competition';
+import {jsStringToWtf8Bytes, wtf8BytesToJsString}
+    from './wtf8';
+
+/**
+ * The string table section holds the per-file strings
+ * referenced by the tree stream, grouped by kind.
+ *
+ * Layout:
+ *
+ *      method          1 byte, index into
+ *                      `STRING_SECTION_METHODS`
+ *      payload         the (possibly compressed) groups
+ *
+ * The uncompressed groups are, for each kind in
+ * `STRING_KINDS` order, a varuint count followed by that
+ * many varuint-length-prefixed WTF-8 strings.
+ *
+ * With the 'range' method, the payload is a varuint
+ * length of the uncompressed groups followed by their
+ * bytes coded with an adaptive order-0 byte model.
+ */
+export const STRING_KINDS: ReadonlyArray<string> =
+    Object.freeze(['ident', 'prop', 'raw']);
+
+export const STRING_SECTION_METHODS: ReadonlyArray<string> =
+    Object.freeze(['plain', 'brotli', 'range']);
+
+export type StringGroups = Map<string, ReadonlyArray<string>>;
+
+export function encodeStringSection(groups: StringGroups,
+                                    method: string)
+  : Uint8Array
+{
+    const methodIndex = STRING_SECTION_METHODS.indexOf(method);
+    if (methodIndex < 0) {
+        throw new Error(`Unknown string section method` +
+                        ` ${method}`);
+    }
+
+    const plain = encodeGroups(groups);
+    let payload: Uint8Array;
+    switch (method) {
+      case 'plain':
+        payload = plain;
+        break;
+      case 'brotli':
+        payload = brotliBytes(plain);
+        break;
+      case 'range':
+        payload = rangeCodeBytes(plain);
+        break;
+    }
+
+    const sink = new MemoryByteSink();
+    sink.write(methodIndex, payload);
+    return sink.extractBytes();
+}
+
+export function decodeStringSection(bytes: Uint8Array)
+  : StringGroups
+{
+    assert(bytes.length > 0, 'Empty string section.');
+    const method = STRING_SECTION_METHODS[bytes[0]];
+    const payload = bytes.subarray(1);
+
+    switch (method) {
+      case 'plain':
+        return decodeGroups(payload);
+      case 'brotli':
+        return decodeGroups(unbrotliBytes(payload));
+      case 'range':
+        return decodeGroups(rangeDecodeBytes(payload));
+    }
+    throw new Error(`Unknown string section method` +
+                    ` ${bytes[0]}`);
+}
+
+function encodeGroups(groups: StringGroups): Uint8Array {
+    const sink = new MemoryByteSink();
+    for (let kind of STRING_KINDS) {
+        const strings = groups.get(kind) || [];
+        sink.write(encodeVarUint(strings.length));
+        for (let s of strings) {
+            const bytes = jsStringToWtf8Bytes(s);
+            sink.write(encodeVarUint(bytes.length), bytes);
+        }
+    }
+    return sink.extractBytes();
+}
+
+function decodeGroups(bytes: Uint8Array): StringGroups {
+    const reader = new ByteReader(bytes);
+    const groups: StringGroups = new Map();
+    for (let kind of STRING_KINDS) {
+        const count = reader.readVarUint();
+        const strings = new Array<string>();
+        for (let i = 0; i < count; i++) {
+            const len = reader.readVarUint();
+            strings.push(
+                wtf8BytesToJsString(reader.readBytes(len)));
+        }
+        groups.set(kind, strings);
+    }
+    assert(reader.atEnd(), 'Trailing string table bytes.');
+    return groups;
+}
+
+const BYTE_MODEL_INCREMENT: number = 24;
+const BYTE_MODEL_LIMIT: number = 1 << 16;
+
+/**
+ * An adaptive order-0 model over byte values.  Every
+ * byte starts with a count of 1, so all bytes remain
+ * codable.
+ */
+class AdaptiveByteModel {
+    readonly counts: Uint32Array;
+    total: number;
+
+    constructor() {
+        this.counts = new Uint32Array(256).fill(1);
+        this.total = 256;
+    }
+
+    offsetOf(b: number): number {
+        let offset: number = 0;
+        for (let i = 0; i < b; i++) {
+            offset += this.counts[i];
+        }
+        return offset;
+    }
+
+    byteAt(cumFreq: number): [number, number] {
+        let offset: number = 0;
+        for (let b = 0; b < 256; b++) {
+            const next = offset + this.counts[b];
+            if (cumFreq < next) {
+                return [b, offset];
+            }
+            offset = next;
+        }
+        throw new Error('Bad cumulative frequency.');
+    }
+
+    update(b: number) {
+        this.counts[b] += BYTE_MODEL_INCREMENT;
+        this.total += BYTE_MODEL_INCREMENT;
+        if (this.total > BYTE_MODEL_LIMIT) {
+            this.total = 0;
+            for (let i = 0; i < 256; i++) {
+                this.counts[i] = (this.counts[i] + 1) >>> 1;
+                this.total += this.counts[i];
+            }
+        }
+    }
+}
+
+function rangeCodeBytes(data: Uint8Array): Uint8Array {
+    const out = new Array<number>();
+    const coder = new RangeCoder({
+        writeByte(b) { out.push(b); }
+    });
+    coder.encodeStart(/* byte = */ 0, 1);
+
+    const model = new AdaptiveByteModel();
+    for (let b of data) {
+        coder.encodeFreq(model.counts[b], model.offsetOf(b),
+                         model.total);
+        model.update(b);
+    }
+    coder.encodeFinish();
+
+    const sink = new MemoryByteSink();
+    sink.write(encodeVarUint(data.length), out);
+    return sink.extractBytes();
+}
+
+function rangeDecodeBytes(bytes: Uint8Array): Uint8Array {
+    const reader = new ByteReader(bytes);
+    const length = reader.readVarUint();
+    const coded = bytes.subarray(reader.offset);
+
+    let offset: number = 0;
+    const coder = new RangeCoder({
+        readByte() {
+            return (offset < coded.length) ? coded[offset++]
+                                           : 0;
+        }
+    });
+    coder.decodeStart();
+
+    const model = new AdaptiveByteModel();
+    const data = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+        const cumFreq = coder.decodeCulFreq(model.total);
+        const [b, bOffset] = model.byteAt(cumFreq);
+        coder.decodeUpdate(model.counts[b], bOffset,
+                           model.total);
+        model.update(b);
+        data[i] = b;
+    }
+    coder.decodeFinish();
+    return data;
+}
@@ -11,6 +11,13 @@ export function brotliFile(filename: string): Uint8Array {
     return new Uint8Array(
         execSync(`brotli -q 11 -c <"${filename}"`));
 }
+export function gzipBytes(data: Uint8Array): Uint8Array {
+    const fn = `/tmp/gzip-input-${process.pid}`;
+    fs.writeFileSync(fn, data);
+    const result = gzipFile(fn);
+    fs.unlinkSync(fn);
+    return result;
+}
 export function brotliBytes(data: Uint8Array): Uint8Array {
     const fn = `/tmp/brotli-input-${process.pid}`;
     fs.writeFileSync(fn, data);
@@ -18,3 +25,11 @@ export function brotliBytes(data: Uint8Array): Uint8Array {
     fs.unlinkSync(fn);
     return result;
 }
+export function unbrotliBytes(data: Uint8Array): Uint8Array {
+    const fn = `/tmp/brotli-input-${process.pid}`;
+    fs.writeFileSync(fn, data);
+    const result = new Uint8Array(
+        execSync(`brotli -d -c <"${fn}"`));
+    fs.unlinkSync(fn);
+    return result;
+}
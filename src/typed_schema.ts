@@ -394,15 +394,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("IdentifierName"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "kind",
                 /* ty = */ TNamed("AssertedDeclaredKind"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "isCaptured",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_AssertedDeclaredName"] = new S.Iface(typeName, fields, false);
         }
@@ -422,11 +428,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("IdentifierName"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "isCaptured",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_AssertedBoundName"] = new S.Iface(typeName, fields, false);
         }
@@ -446,11 +456,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "declaredNames",
                 /* ty = */ TArray(TNamed("AssertedDeclaredName")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "hasDirectEval",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_AssertedBlockScope"] = new S.Iface(typeName, fields, false);
         }
@@ -470,11 +484,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "declaredNames",
                 /* ty = */ TArray(TNamed("AssertedDeclaredName")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "hasDirectEval",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_AssertedScriptGlobalScope"] = new S.Iface(typeName, fields, false);
         }
@@ -494,11 +512,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "declaredNames",
                 /* ty = */ TArray(TNamed("AssertedDeclaredName")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "hasDirectEval",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_AssertedVarScope"] = new S.Iface(typeName, fields, false);
         }
@@ -518,15 +540,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "boundNames",
                 /* ty = */ TArray(TNamed("AssertedBoundName")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "hasDirectEval",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "isSimpleParameterList",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_AssertedParameterScope"] = new S.Iface(typeName, fields, false);
         }
@@ -546,11 +574,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "boundNames",
                 /* ty = */ TArray(TNamed("AssertedBoundName")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "hasDirectEval",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_AssertedBoundNamesScope"] = new S.Iface(typeName, fields, false);
         }
@@ -810,7 +842,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("Identifier"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_BindingIdentifier"] = new S.Iface(typeName, fields, true);
         }
@@ -920,11 +954,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "binding",
                 /* ty = */ TNamed("Binding"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "init",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_BindingWithInitializer"] = new S.Iface(typeName, fields, true);
         }
@@ -944,7 +982,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("Identifier"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_AssignmentTargetIdentifier"] = new S.Iface(typeName, fields, true);
         }
@@ -964,11 +1004,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "object",
                 /* ty = */ TUnion([TNamed("Expression"), TNamed("Super")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "expression",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ComputedMemberAssignmentTarget"] = new S.Iface(typeName, fields, true);
         }
@@ -988,11 +1032,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "object",
                 /* ty = */ TUnion([TNamed("Expression"), TNamed("Super")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "property",
                 /* ty = */ TNamed("IdentifierName"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_StaticMemberAssignmentTarget"] = new S.Iface(typeName, fields, true);
         }
@@ -1012,11 +1060,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "elements",
                 /* ty = */ TArray(TUnion([TNull, TNamed("Binding"), TNamed("BindingWithInitializer")])),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "rest",
                 /* ty = */ TUnion([TNull, TNamed("Binding")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ArrayBinding"] = new S.Iface(typeName, fields, true);
         }
@@ -1036,11 +1088,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "binding",
                 /* ty = */ TNamed("BindingIdentifier"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "init",
                 /* ty = */ TUnion([TNull, TNamed("Expression")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_BindingPropertyIdentifier"] = new S.Iface(typeName, fields, true);
         }
@@ -1060,11 +1116,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("PropertyName"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "binding",
                 /* ty = */ TUnion([TNamed("Binding"), TNamed("BindingWithInitializer")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_BindingPropertyProperty"] = new S.Iface(typeName, fields, true);
         }
@@ -1099,7 +1159,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "properties",
                 /* ty = */ TArray(TNamed("BindingProperty")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ObjectBinding"] = new S.Iface(typeName, fields, true);
         }
@@ -1119,11 +1181,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "binding",
                 /* ty = */ TNamed("AssignmentTarget"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "init",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_AssignmentTargetWithInitializer"] = new S.Iface(typeName, fields, true);
         }
@@ -1143,11 +1209,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "elements",
                 /* ty = */ TArray(TUnion([TNull, TNamed("AssignmentTarget"), TNamed("AssignmentTargetWithInitializer")])),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "rest",
                 /* ty = */ TUnion([TNull, TNamed("AssignmentTarget")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ArrayAssignmentTarget"] = new S.Iface(typeName, fields, true);
         }
@@ -1167,11 +1237,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "binding",
                 /* ty = */ TNamed("AssignmentTargetIdentifier"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "init",
                 /* ty = */ TUnion([TNull, TNamed("Expression")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_AssignmentTargetPropertyIdentifier"] = new S.Iface(typeName, fields, true);
         }
@@ -1191,11 +1265,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("PropertyName"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "binding",
                 /* ty = */ TUnion([TNamed("AssignmentTarget"), TNamed("AssignmentTargetWithInitializer")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_AssignmentTargetPropertyProperty"] = new S.Iface(typeName, fields, true);
         }
@@ -1230,7 +1308,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "properties",
                 /* ty = */ TArray(TNamed("AssignmentTargetProperty")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ObjectAssignmentTarget"] = new S.Iface(typeName, fields, true);
         }
@@ -1250,15 +1330,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TUnion([TNull, TNamed("BindingIdentifier")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "super",
                 /* ty = */ TUnion([TNull, TNamed("Expression")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "elements",
                 /* ty = */ TArray(TNamed("ClassElement")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ClassExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -1278,15 +1364,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("BindingIdentifier"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "super",
                 /* ty = */ TUnion([TNull, TNamed("Expression")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "elements",
                 /* ty = */ TArray(TNamed("ClassElement")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ClassDeclaration"] = new S.Iface(typeName, fields, true);
         }
@@ -1306,11 +1398,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "isStatic",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "method",
                 /* ty = */ TNamed("MethodDefinition"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ClassElement"] = new S.Iface(typeName, fields, true);
         }
@@ -1330,15 +1426,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "scope",
                 /* ty = */ TNamed("AssertedVarScope"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "directives",
                 /* ty = */ TArray(TNamed("Directive")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "items",
                 /* ty = */ TArray(TUnion([TNamed("ImportDeclaration"), TNamed("ExportDeclaration"), TNamed("Statement")])),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_Module"] = new S.Iface(typeName, fields, true);
         }
@@ -1358,15 +1460,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "moduleSpecifier",
                 /* ty = */ TStr,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "defaultBinding",
                 /* ty = */ TUnion([TNull, TNamed("BindingIdentifier")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "namedImports",
                 /* ty = */ TArray(TNamed("ImportSpecifier")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_Import"] = new S.Iface(typeName, fields, true);
         }
@@ -1386,15 +1494,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "moduleSpecifier",
                 /* ty = */ TStr,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "defaultBinding",
                 /* ty = */ TUnion([TNull, TNamed("BindingIdentifier")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "namespaceBinding",
                 /* ty = */ TNamed("BindingIdentifier"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ImportNamespace"] = new S.Iface(typeName, fields, true);
         }
@@ -1414,11 +1528,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TUnion([TNull, TNamed("IdentifierName")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "binding",
                 /* ty = */ TNamed("BindingIdentifier"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ImportSpecifier"] = new S.Iface(typeName, fields, true);
         }
@@ -1438,7 +1556,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "moduleSpecifier",
                 /* ty = */ TStr,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ExportAllFrom"] = new S.Iface(typeName, fields, true);
         }
@@ -1458,11 +1578,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "namedExports",
                 /* ty = */ TArray(TNamed("ExportFromSpecifier")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "moduleSpecifier",
                 /* ty = */ TStr,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ExportFrom"] = new S.Iface(typeName, fields, true);
         }
@@ -1482,7 +1606,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "namedExports",
                 /* ty = */ TArray(TNamed("ExportLocalSpecifier")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ExportLocals"] = new S.Iface(typeName, fields, true);
         }
@@ -1502,7 +1628,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "declaration",
                 /* ty = */ TUnion([TNamed("FunctionDeclaration"), TNamed("ClassDeclaration"), TNamed("VariableDeclaration")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_Export"] = new S.Iface(typeName, fields, true);
         }
@@ -1522,7 +1650,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TUnion([TNamed("FunctionDeclaration"), TNamed("ClassDeclaration"), TNamed("Expression")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ExportDefault"] = new S.Iface(typeName, fields, true);
         }
@@ -1542,11 +1672,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("IdentifierName"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "exportedName",
                 /* ty = */ TUnion([TNull, TNamed("IdentifierName")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ExportFromSpecifier"] = new S.Iface(typeName, fields, true);
         }
@@ -1566,11 +1700,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("IdentifierExpression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "exportedName",
                 /* ty = */ TUnion([TNull, TNamed("IdentifierName")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ExportLocalSpecifier"] = new S.Iface(typeName, fields, true);
         }
@@ -1590,23 +1728,33 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "isAsync",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "isGenerator",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("PropertyName"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "directives",
                 /* ty = */ TArray(TNamed("Directive")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "contents",
                 /* ty = */ TNamed("FunctionOrMethodContents"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_EagerMethod"] = new S.Iface(typeName, fields, true);
         }
@@ -1626,23 +1774,33 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "isAsync",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "isGenerator",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("PropertyName"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "directives",
                 /* ty = */ TArray(TNamed("Directive")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "contents",
                 /* ty = */ TNamed("FunctionOrMethodContents"),
-                /* isLazy = */ false),
+                /* isLazy = */ true,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_LazyMethod"] = new S.Iface(typeName, fields, true);
         }
@@ -1662,15 +1820,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("PropertyName"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "directives",
                 /* ty = */ TArray(TNamed("Directive")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "contents",
                 /* ty = */ TNamed("GetterContents"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_EagerGetter"] = new S.Iface(typeName, fields, true);
         }
@@ -1690,15 +1854,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("PropertyName"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "directives",
                 /* ty = */ TArray(TNamed("Directive")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "contents",
                 /* ty = */ TNamed("GetterContents"),
-                /* isLazy = */ false),
+                /* isLazy = */ true,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_LazyGetter"] = new S.Iface(typeName, fields, true);
         }
@@ -1718,15 +1888,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "isThisCaptured",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "bodyScope",
                 /* ty = */ TNamed("AssertedVarScope"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TNamed("FunctionBody"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_GetterContents"] = new S.Iface(typeName, fields, true);
         }
@@ -1746,15 +1922,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("PropertyName"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "directives",
                 /* ty = */ TArray(TNamed("Directive")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "contents",
                 /* ty = */ TNamed("SetterContents"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_EagerSetter"] = new S.Iface(typeName, fields, true);
         }
@@ -1774,15 +1956,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("PropertyName"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "directives",
                 /* ty = */ TArray(TNamed("Directive")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "contents",
                 /* ty = */ TNamed("SetterContents"),
-                /* isLazy = */ false),
+                /* isLazy = */ true,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_LazySetter"] = new S.Iface(typeName, fields, true);
         }
@@ -1802,23 +1990,33 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "isThisCaptured",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "parameterScope",
                 /* ty = */ TNamed("AssertedParameterScope"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "param",
                 /* ty = */ TNamed("Parameter"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "bodyScope",
                 /* ty = */ TNamed("AssertedVarScope"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TNamed("FunctionBody"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_SetterContents"] = new S.Iface(typeName, fields, true);
         }
@@ -1838,11 +2036,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("PropertyName"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "expression",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_DataProperty"] = new S.Iface(typeName, fields, true);
         }
@@ -1862,7 +2064,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("IdentifierExpression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ShorthandProperty"] = new S.Iface(typeName, fields, true);
         }
@@ -1882,7 +2086,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "expression",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ComputedPropertyName"] = new S.Iface(typeName, fields, true);
         }
@@ -1902,7 +2108,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "value",
                 /* ty = */ TNamed("PropertyString"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_LiteralPropertyName"] = new S.Iface(typeName, fields, true);
         }
@@ -1922,7 +2130,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "value",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_LiteralBooleanExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -1974,7 +2184,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "value",
                 /* ty = */ TF64,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_LiteralNumericExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -1994,11 +2206,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "pattern",
                 /* ty = */ TStr,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "flags",
                 /* ty = */ TStr,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_LiteralRegExpExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2018,7 +2234,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "value",
                 /* ty = */ TStr,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_LiteralStringExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2038,7 +2256,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "elements",
                 /* ty = */ TArray(TUnion([TNull, TNamed("SpreadElement"), TNamed("Expression")])),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ArrayExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2058,15 +2278,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "isAsync",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "directives",
                 /* ty = */ TUnion([TNull, TArray(TNamed("Directive"))]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "contents",
                 /* ty = */ TNamed("ArrowExpressionContents"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_EagerArrowExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2086,15 +2312,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "isAsync",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "directives",
                 /* ty = */ TUnion([TNull, TArray(TNamed("Directive"))]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "contents",
                 /* ty = */ TNamed("ArrowExpressionContents"),
-                /* isLazy = */ false),
+                /* isLazy = */ true,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_LazyArrowExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2114,19 +2346,27 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "parameterScope",
                 /* ty = */ TNamed("AssertedParameterScope"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "params",
                 /* ty = */ TNamed("FormalParameters"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "bodyScope",
                 /* ty = */ TNamed("AssertedVarScope"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TUnion([TNamed("FunctionBody"), TNamed("Expression")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ArrowExpressionContents"] = new S.Iface(typeName, fields, true);
         }
@@ -2146,11 +2386,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "binding",
                 /* ty = */ TNamed("AssignmentTarget"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "expression",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_AssignmentExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2170,15 +2414,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "operator",
                 /* ty = */ TNamed("BinaryOperator"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "left",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "right",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_BinaryExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2198,11 +2448,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "callee",
                 /* ty = */ TUnion([TNamed("Expression"), TNamed("Super")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "arguments",
                 /* ty = */ TNamed("Arguments"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_CallExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2222,15 +2476,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "operator",
                 /* ty = */ TNamed("CompoundAssignmentOperator"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "binding",
                 /* ty = */ TNamed("SimpleAssignmentTarget"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "expression",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_CompoundAssignmentExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2250,11 +2510,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "object",
                 /* ty = */ TUnion([TNamed("Expression"), TNamed("Super")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "expression",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ComputedMemberExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2274,15 +2538,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "test",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "consequent",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "alternate",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ConditionalExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2302,23 +2572,33 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "isAsync",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "isGenerator",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TUnion([TNull, TNamed("BindingIdentifier")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "directives",
                 /* ty = */ TArray(TNamed("Directive")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "contents",
                 /* ty = */ TNamed("FunctionExpressionContents"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_EagerFunctionExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2338,23 +2618,33 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "isAsync",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "isGenerator",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TUnion([TNull, TNamed("BindingIdentifier")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "directives",
                 /* ty = */ TArray(TNamed("Directive")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "contents",
                 /* ty = */ TNamed("FunctionExpressionContents"),
-                /* isLazy = */ false),
+                /* isLazy = */ true,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_LazyFunctionExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2374,27 +2664,39 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "isFunctionNameCaptured",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "isThisCaptured",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "parameterScope",
                 /* ty = */ TNamed("AssertedParameterScope"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "params",
                 /* ty = */ TNamed("FormalParameters"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "bodyScope",
                 /* ty = */ TNamed("AssertedVarScope"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TNamed("FunctionBody"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_FunctionExpressionContents"] = new S.Iface(typeName, fields, true);
         }
@@ -2414,7 +2716,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("Identifier"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_IdentifierExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2434,11 +2738,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "callee",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "arguments",
                 /* ty = */ TNamed("Arguments"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_NewExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2474,7 +2782,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "properties",
                 /* ty = */ TArray(TNamed("ObjectProperty")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ObjectExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2494,11 +2804,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "operator",
                 /* ty = */ TNamed("UnaryOperator"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "operand",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_UnaryExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2518,11 +2832,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "object",
                 /* ty = */ TUnion([TNamed("Expression"), TNamed("Super")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "property",
                 /* ty = */ TNamed("PropertyString"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_StaticMemberExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2542,11 +2860,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "tag",
                 /* ty = */ TUnion([TNull, TNamed("Expression")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "elements",
                 /* ty = */ TArray(TUnion([TNamed("Expression"), TNamed("TemplateElement")])),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_TemplateExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2582,15 +2904,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "isPrefix",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "operator",
                 /* ty = */ TNamed("UpdateOperator"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "operand",
                 /* ty = */ TNamed("SimpleAssignmentTarget"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_UpdateExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2610,7 +2938,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "expression",
                 /* ty = */ TUnion([TNull, TNamed("Expression")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_YieldExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2630,7 +2960,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "expression",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_YieldStarExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2650,7 +2982,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "expression",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_AwaitExpression"] = new S.Iface(typeName, fields, true);
         }
@@ -2670,7 +3004,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "label",
                 /* ty = */ TUnion([TNull, TNamed("Label")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_BreakStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -2690,7 +3026,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "label",
                 /* ty = */ TUnion([TNull, TNamed("Label")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ContinueStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -2726,11 +3064,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "test",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TNamed("Statement"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_DoWhileStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -2766,7 +3108,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "expression",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ExpressionStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -2786,11 +3130,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "kind",
                 /* ty = */ TNamed("VariableDeclarationKind"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "binding",
                 /* ty = */ TNamed("Binding"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ForInOfBinding"] = new S.Iface(typeName, fields, true);
         }
@@ -2810,15 +3158,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "left",
                 /* ty = */ TUnion([TNamed("ForInOfBinding"), TNamed("AssignmentTarget")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "right",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TNamed("Statement"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ForInStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -2838,15 +3192,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "left",
                 /* ty = */ TUnion([TNamed("ForInOfBinding"), TNamed("AssignmentTarget")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "right",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TNamed("Statement"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ForOfStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -2866,19 +3226,27 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "init",
                 /* ty = */ TUnion([TNull, TNamed("VariableDeclaration"), TNamed("Expression")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "test",
                 /* ty = */ TUnion([TNull, TNamed("Expression")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "update",
                 /* ty = */ TUnion([TNull, TNamed("Expression")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TNamed("Statement"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ForStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -2898,15 +3266,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "test",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "consequent",
                 /* ty = */ TNamed("Statement"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "alternate",
                 /* ty = */ TUnion([TNull, TNamed("Statement")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_IfStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -2926,11 +3300,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "label",
                 /* ty = */ TNamed("Label"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TNamed("Statement"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_LabelledStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -2950,7 +3328,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "expression",
                 /* ty = */ TUnion([TNull, TNamed("Expression")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ReturnStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -2970,11 +3350,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "discriminant",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "cases",
                 /* ty = */ TArray(TNamed("SwitchCase")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_SwitchStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -2994,19 +3378,27 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "discriminant",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "preDefaultCases",
                 /* ty = */ TArray(TNamed("SwitchCase")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "defaultCase",
                 /* ty = */ TNamed("SwitchDefault"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "postDefaultCases",
                 /* ty = */ TArray(TNamed("SwitchCase")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_SwitchStatementWithDefault"] = new S.Iface(typeName, fields, true);
         }
@@ -3026,7 +3418,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "expression",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_ThrowStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -3046,11 +3440,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TNamed("Block"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "catchClause",
                 /* ty = */ TNamed("CatchClause"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_TryCatchStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -3070,15 +3468,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TNamed("Block"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "catchClause",
                 /* ty = */ TUnion([TNull, TNamed("CatchClause")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "finalizer",
                 /* ty = */ TNamed("Block"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_TryFinallyStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -3098,11 +3502,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "test",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TNamed("Statement"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_WhileStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -3122,11 +3530,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "object",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TNamed("Statement"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_WithStatement"] = new S.Iface(typeName, fields, true);
         }
@@ -3146,11 +3558,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "scope",
                 /* ty = */ TNamed("AssertedBlockScope"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "statements",
                 /* ty = */ TArray(TNamed("Statement")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_Block"] = new S.Iface(typeName, fields, true);
         }
@@ -3170,15 +3586,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "bindingScope",
                 /* ty = */ TNamed("AssertedBoundNamesScope"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "binding",
                 /* ty = */ TNamed("Binding"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TNamed("Block"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_CatchClause"] = new S.Iface(typeName, fields, true);
         }
@@ -3198,7 +3620,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "rawValue",
                 /* ty = */ TStr,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_Directive"] = new S.Iface(typeName, fields, true);
         }
@@ -3218,11 +3642,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "items",
                 /* ty = */ TArray(TNamed("Parameter")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "rest",
                 /* ty = */ TUnion([TNull, TNamed("Binding")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_FormalParameters"] = new S.Iface(typeName, fields, true);
         }
@@ -3257,23 +3685,33 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "isAsync",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "isGenerator",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("BindingIdentifier"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "directives",
                 /* ty = */ TArray(TNamed("Directive")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "contents",
                 /* ty = */ TNamed("FunctionOrMethodContents"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_EagerFunctionDeclaration"] = new S.Iface(typeName, fields, true);
         }
@@ -3293,23 +3731,33 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "isAsync",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "isGenerator",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "name",
                 /* ty = */ TNamed("BindingIdentifier"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "directives",
                 /* ty = */ TArray(TNamed("Directive")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "content",
                 /* ty = */ TNamed("FunctionOrMethodContents"),
-                /* isLazy = */ false),
+                /* isLazy = */ true,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_LazyFunctionDeclaration"] = new S.Iface(typeName, fields, true);
         }
@@ -3329,23 +3777,33 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "isThisCaptured",
                 /* ty = */ TBool,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "parameterScope",
                 /* ty = */ TNamed("AssertedParameterScope"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "params",
                 /* ty = */ TNamed("FormalParameters"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "bodyScope",
                 /* ty = */ TNamed("AssertedVarScope"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "body",
                 /* ty = */ TNamed("FunctionBody"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_FunctionOrMethodContents"] = new S.Iface(typeName, fields, true);
         }
@@ -3365,15 +3823,21 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "scope",
                 /* ty = */ TNamed("AssertedScriptGlobalScope"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "directives",
                 /* ty = */ TArray(TNamed("Directive")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "statements",
                 /* ty = */ TArray(TNamed("Statement")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_Script"] = new S.Iface(typeName, fields, true);
         }
@@ -3393,7 +3857,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "expression",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_SpreadElement"] = new S.Iface(typeName, fields, true);
         }
@@ -3429,11 +3895,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "test",
                 /* ty = */ TNamed("Expression"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "consequent",
                 /* ty = */ TArray(TNamed("Statement")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_SwitchCase"] = new S.Iface(typeName, fields, true);
         }
@@ -3453,7 +3923,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "consequent",
                 /* ty = */ TArray(TNamed("Statement")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_SwitchDefault"] = new S.Iface(typeName, fields, true);
         }
@@ -3473,7 +3945,9 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "rawValue",
                 /* ty = */ TStr,
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_TemplateElement"] = new S.Iface(typeName, fields, true);
         }
@@ -3493,11 +3967,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "kind",
                 /* ty = */ TNamed("VariableDeclarationKind"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "declarators",
                 /* ty = */ TArray(TNamed("VariableDeclarator")),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ true,
+                /* isTypeIndicator = */ false),
             ];
             this["c_VariableDeclaration"] = new S.Iface(typeName, fields, true);
         }
@@ -3517,11 +3995,15 @@ export const ReflectedSchema = {
             new S.IfaceField(
                 /* name = */ "binding",
                 /* ty = */ TNamed("Binding"),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             new S.IfaceField(
                 /* name = */ "init",
                 /* ty = */ TUnion([TNull, TNamed("Expression")]),
-                /* isLazy = */ false),
+                /* isLazy = */ false,
+                /* isNonEmpty = */ false,
+                /* isTypeIndicator = */ false),
             ];
             this["c_VariableDeclarator"] = new S.Iface(typeName, fields, true);
         }
@@ -3687,7 +4169,12 @@ export const ReflectedSchema = {
             d.push(ReflectedSchema.TemplateElement);
             d.push(ReflectedSchema.VariableDeclaration);
             d.push(ReflectedSchema.VariableDeclarator);
-            this['_schema'] = new S.TreeSchema(d);
+            const schema = new S.TreeSchema(d);
+            assert(schema.fingerprint ===
+                   SchemaFingerprint,
+                   'Schema fingerprint mismatch,' +
+                   ' regenerate this file.');
+            this['_schema'] = schema;
         }
         assert(this['_schema'] instanceof S.TreeSchema);
         return this['_schema'] as S.TreeSchema;
@@ -3695,6 +4182,188 @@ export const ReflectedSchema = {
 } // ReflectedSchema;
 
 
+/*** Schema Identity ***/
+
+export const SchemaFingerprint = "a4f9e33402879cca20c5575a61493e22e87900967e24e8c510f134983b221bf0";
+
+export const DeclIds = Object.freeze({
+    VariableDeclarationKind: 659988057,
+    CompoundAssignmentOperator: 3772721245,
+    BinaryOperator: 4282877228,
+    UnaryOperator: 835180576,
+    UpdateOperator: 182380868,
+    AssertedDeclaredKind: 782580362,
+    AssertedDeclaredName: 1212388891,
+    AssertedBoundName: 48520545,
+    AssertedBlockScope: 3950207581,
+    AssertedScriptGlobalScope: 595187598,
+    AssertedVarScope: 2024221653,
+    AssertedParameterScope: 509010675,
+    AssertedBoundNamesScope: 3653973746,
+    BindingIdentifier: 1969057473,
+    BindingWithInitializer: 1091375138,
+    AssignmentTargetIdentifier: 2165029538,
+    ComputedMemberAssignmentTarget: 3875237600,
+    StaticMemberAssignmentTarget: 849132333,
+    ArrayBinding: 3860384219,
+    BindingPropertyIdentifier: 1381945020,
+    BindingPropertyProperty: 2988992166,
+    ObjectBinding: 3348703015,
+    AssignmentTargetWithInitializer: 3517989635,
+    ArrayAssignmentTarget: 2218453270,
+    AssignmentTargetPropertyIdentifier: 4169391239,
+    AssignmentTargetPropertyProperty: 3009198661,
+    ObjectAssignmentTarget: 947355146,
+    ClassExpression: 1495201377,
+    ClassDeclaration: 2154499177,
+    ClassElement: 2699927617,
+    Module: 3304874173,
+    Import: 1463683828,
+    ImportNamespace: 4068267323,
+    ImportSpecifier: 957551340,
+    ExportAllFrom: 635169986,
+    ExportFrom: 488843663,
+    ExportLocals: 2928890563,
+    Export: 3898821075,
+    ExportDefault: 2714151044,
+    ExportFromSpecifier: 1036072565,
+    ExportLocalSpecifier: 1728732686,
+    EagerMethod: 2671745962,
+    LazyMethod: 639167654,
+    EagerGetter: 2240114208,
+    LazyGetter: 4167475260,
+    GetterContents: 767573544,
+    EagerSetter: 2232335820,
+    LazySetter: 2267480880,
+    SetterContents: 102376508,
+    DataProperty: 800544232,
+    ShorthandProperty: 420522137,
+    ComputedPropertyName: 2901763468,
+    LiteralPropertyName: 4172676598,
+    LiteralBooleanExpression: 2167640482,
+    LiteralInfinityExpression: 3698696858,
+    LiteralNullExpression: 3226011527,
+    LiteralNumericExpression: 298868297,
+    LiteralRegExpExpression: 865909999,
+    LiteralStringExpression: 2262855275,
+    ArrayExpression: 310842532,
+    EagerArrowExpression: 1361151394,
+    LazyArrowExpression: 1670983966,
+    ArrowExpressionContents: 1260146470,
+    AssignmentExpression: 3588706834,
+    BinaryExpression: 2567422094,
+    CallExpression: 3127948415,
+    CompoundAssignmentExpression: 1539238475,
+    ComputedMemberExpression: 1972377574,
+    ConditionalExpression: 4102089989,
+    EagerFunctionExpression: 1492942685,
+    LazyFunctionExpression: 61114129,
+    FunctionExpressionContents: 3091767681,
+    IdentifierExpression: 2275151932,
+    NewExpression: 4143893319,
+    NewTargetExpression: 4212898006,
+    ObjectExpression: 2060767432,
+    UnaryExpression: 1388805074,
+    StaticMemberExpression: 96109295,
+    TemplateExpression: 2605036605,
+    ThisExpression: 1399818007,
+    UpdateExpression: 389263878,
+    YieldExpression: 375837452,
+    YieldStarExpression: 2554696956,
+    AwaitExpression: 2401470547,
+    BreakStatement: 372190853,
+    ContinueStatement: 3103282721,
+    DebuggerStatement: 1159445223,
+    DoWhileStatement: 1453365786,
+    EmptyStatement: 2994030487,
+    ExpressionStatement: 934740208,
+    ForInOfBinding: 864301199,
+    ForInStatement: 3106856244,
+    ForOfStatement: 1721186738,
+    ForStatement: 2287003117,
+    IfStatement: 3970822399,
+    LabelledStatement: 3108727755,
+    ReturnStatement: 3463132964,
+    SwitchStatement: 53078642,
+    SwitchStatementWithDefault: 4226928675,
+    ThrowStatement: 1978447092,
+    TryCatchStatement: 598173186,
+    TryFinallyStatement: 3622044594,
+    WhileStatement: 805709751,
+    WithStatement: 2655422938,
+    Block: 3171368962,
+    CatchClause: 1535087217,
+    Directive: 2369628282,
+    FormalParameters: 1755403578,
+    EagerFunctionDeclaration: 3590980333,
+    LazyFunctionDeclaration: 4117440921,
+    FunctionOrMethodContents: 1346996911,
+    Script: 1716644298,
+    SpreadElement: 162369446,
+    Super: 2637788020,
+    SwitchCase: 1272541333,
+    SwitchDefault: 1829590242,
+    TemplateElement: 1501515869,
+    VariableDeclaration: 3774086387,
+    VariableDeclarator: 1760531534,
+});
+
+export const VariantIds = Object.freeze({
+    VariableDeclarationKind_KwVar: 3725573230,
+    VariableDeclarationKind_KwLet: 1062094090,
+    VariableDeclarationKind_KwConst: 3776497668,
+    CompoundAssignmentOperator_PlusAssign: 121211489,
+    CompoundAssignmentOperator_MinusAssign: 54395203,
+    CompoundAssignmentOperator_MulAssign: 54248108,
+    CompoundAssignmentOperator_DivAssign: 2269335101,
+    CompoundAssignmentOperator_ModAssign: 2203210363,
+    CompoundAssignmentOperator_PowAssign: 674817180,
+    CompoundAssignmentOperator_LshAssign: 1340819708,
+    CompoundAssignmentOperator_RshAssign: 708083428,
+    CompoundAssignmentOperator_ArshAssign: 3383440608,
+    CompoundAssignmentOperator_BitorAssign: 134658390,
+    CompoundAssignmentOperator_BitxorAssign: 2210154456,
+    CompoundAssignmentOperator_BitandAssign: 2203651648,
+    BinaryOperator_Comma: 62674366,
+    BinaryOperator_LogicalOr: 2755752854,
+    BinaryOperator_LogicalAnd: 1231187410,
+    BinaryOperator_Bitor: 1404883886,
+    BinaryOperator_Bitxor: 1908212456,
+    BinaryOperator_Bitand: 4189865472,
+    BinaryOperator_Equal: 1621456884,
+    BinaryOperator_NotEqual: 1618205480,
+    BinaryOperator_StrictEqual: 3984298347,
+    BinaryOperator_NotStrictEqual: 3949060623,
+    BinaryOperator_LessThan: 331116270,
+    BinaryOperator_LessEqual: 3835852329,
+    BinaryOperator_GreaterThan: 297561032,
+    BinaryOperator_GreaterEqual: 3768447663,
+    BinaryOperator_KwIn: 3022370377,
+    BinaryOperator_KwInstanceof: 2661630052,
+    BinaryOperator_Lsh: 3819074710,
+    BinaryOperator_Rsh: 3785225282,
+    BinaryOperator_Arsh: 2812796724,
+    BinaryOperator_Plus: 113007223,
+    BinaryOperator_Minus: 79451985,
+    BinaryOperator_Mul: 96229604,
+    BinaryOperator_Div: 45896747,
+    BinaryOperator_Mod: 4240198329,
+    BinaryOperator_Pow: 3581922378,
+    UnaryOperator_Plus: 2198498803,
+    UnaryOperator_Minus: 2299164517,
+    UnaryOperator_LogicalNot: 2366274993,
+    UnaryOperator_Bitnot: 3591041180,
+    UnaryOperator_KwTypeof: 653700667,
+    UnaryOperator_KwVoid: 1407341972,
+    UnaryOperator_KwDelete: 3961491701,
+    UpdateOperator_PlusPlus: 2901949388,
+    UpdateOperator_MinusMinus: 2800989484,
+    AssertedDeclaredKind_KwVar: 475854717,
+    AssertedDeclaredKind_NonConstLexical: 2058034105,
+    AssertedDeclaredKind_ConstLexical: 499794223,
+});
+
+
 /*** Typed Interfaces ***/
 
 export type Arguments = RoArr<(SpreadElement | Expression)>;
@@ -16,54 +16,31 @@ export function stringToWobblyCodepoints(str: string)
   : Array<number>
 {
     const result: Array<number> = [];
-    let expectNonSP: boolean = true;
-    let sp0: number;
     for (let i = 0; i < str.length; i++) {
         const cc = str.charCodeAt(i);
         assert(cc >= 0 && cc < 0x10000);
-        if (expectNonSP) {
-            // Normal case.
-            if (cc < UNICODE_SPLO_BEG) {
-                result.push(cc);
-            } else if (cc < UNICODE_SPLO_END) {
-                sp0 = cc;
-                expectNonSP = false;
-            } else {
-                // All other characters are either
-                // invalid surrogate pairs, or valid
-                // codepoints.
-                result.push(cc);
-            }
-        } else {
-            // We expect a high surrogate pair half.
-            if (cc < UNICODE_SPLO_END) {
-                // Either a non-surrogate code or a low
-                // surrogate half.
-                // Previous low surrogate pair entry
-                // was bad, push that as-is and this
-                // one as-is.
-                result.push(sp0);
-                result.push(cc);
-            } else if (cc < UNICODE_SPHI_END) {
-                // Got valid Hi-Lo surrogate pair.
-                // Compute a unicode codepoint and push it.
-                const high10 = sp0 & 0x3F;
-                const low10 = cc & 0x3F;
-                result.push(((high10 << 10) + low10)
+
+        // Lead surrogate halves are combined with a
+        // directly following trail half.  Everything
+        // else (including unpaired halves) is pushed
+        // as-is.
+        if ((cc >= UNICODE_SPLO_BEG) &&
+            (cc < UNICODE_SPLO_END) &&
+            (i + 1 < str.length))
+        {
+            const next = str.charCodeAt(i + 1);
+            if ((next >= UNICODE_SPLO_END) &&
+                (next < UNICODE_SPHI_END))
+            {
+                const high10 = cc & 0x3FF;
+                const low10 = next & 0x3FF;
+                result.push(((high10 << 10) | low10)
                                 + 0x10000);
-            } else {
-                // Previous low surrogate pair half
-                // was bad, push that as-is and this
-                // one as-is.
-                result.push(sp0);
-                result.push(cc);
+                i++;
+                continue;
             }
-            expectNonSP = true;
         }
-    }
-    if (!expectNonSP) {
-        // Dangling low-surrogate half.
-        result.push(sp0);
+        result.push(cc);
     }
     return result;
 }
@@ -83,7 +60,7 @@ function encodeCodepointAppend(cp: number,
 {
     assert(cp <= 0x10_ffff);
 
-    if (cp < 0b1_0000_0000) {
+    if (cp < 0b1000_0000) {
         // 7 bits
         bytes.push(cp);
         return;
@@ -115,3 +92,61 @@ function encodeCodepointAppend(cp: number,
     bytes.push(((cp >> 6) & 0b0011_1111) | 0b1000_0000);
     bytes.push((cp & 0b0011_1111) | 0b1000_0000);
 }
+
+export function wtf8BytesToJsString(bytes: Uint8Array)
+  : string
+{
+    const cps = wtf8ToCodepoints(bytes);
+    const units: Array<string> = [];
+    for (let cp of cps) {
+        if (cp < 0x10000) {
+            units.push(String.fromCharCode(cp));
+            continue;
+        }
+        // Split back into a surrogate pair.
+        const bits = cp - 0x10000;
+        units.push(String.fromCharCode(
+            UNICODE_SPLO_BEG + (bits >> 10),
+            UNICODE_SPLO_END + (bits & 0x3FF)));
+    }
+    return units.join('');
+}
+
+export function wtf8ToCodepoints(bytes: Uint8Array)
+  : Array<number>
+{
+    const result: Array<number> = [];
+    let i = 0;
+    while (i < bytes.length) {
+        const b0 = bytes[i];
+        let extra: number;
+        let cp: number;
+        if (b0 < 0b1000_0000) {
+            extra = 0;
+            cp = b0;
+        } else if ((b0 & 0b1110_0000) === 0b1100_0000) {
+            extra = 1;
+            cp = b0 & 0b0001_1111;
+        } else if ((b0 & 0b1111_0000) === 0b1110_0000) {
+            extra = 2;
+            cp = b0 & 0b0000_1111;
+        } else if ((b0 & 0b1111_1000) === 0b1111_0000) {
+            extra = 3;
+            cp = b0 & 0b0000_0111;
+        } else {
+            throw new Error(`Bad WTF-8 lead byte ${b0}`);
+        }
+
+        assert(i + extra < bytes.length,
+               "Truncated WTF-8 sequence");
+        for (let j = 1; j <= extra; j++) {
+            const b = bytes[i + j];
+            assert((b & 0b1100_0000) === 0b1000_0000,
+                   `Bad WTF-8 continuation byte ${b}`);
+            cp = (cp << 6) | (b & 0b0011_1111);
+        }
+        result.push(cp);
+        i += extra + 1;
+    }
+    return result;
+}